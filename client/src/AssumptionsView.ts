@@ -0,0 +1,147 @@
+'use strict';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as proto from './protocol';
+import { CoqLanguageServer } from './CoqLanguageServer';
+import { getProject } from './CoqProject';
+
+/** A file, one of its unproved sentences, a theorem whose assumptions were asked for, or a line of the output of `Print Assumptions` */
+export type AssumptionNode =
+  { kind: "file", uri: string, assumptions: proto.Assumption[] }
+  | { kind: "assumption", uri: string, assumption: proto.Assumption }
+  | { kind: "theorem", uri: string, name: string }
+  | { kind: "output", line: string };
+
+const kindLabels = {admitted: "Admitted", admit: "admit", axiom: "Axiom", unsafe: "adds an axiom"};
+
+/**
+ * Lists the `Admitted` proofs, `admit` tactics and axioms of the open document or of the workspace.
+ * Expanding a proof or a theorem shows what `Print Assumptions` reports for it.
+ */
+export class AssumptionsView implements vscode.TreeDataProvider<AssumptionNode>, vscode.Disposable {
+  public static readonly viewId = 'coqAssumptions';
+  private files : AssumptionNode[] = [];
+  private theorems : AssumptionNode[] = [];
+  private changed = new vscode.EventEmitter<AssumptionNode|undefined>();
+  public readonly onDidChangeTreeData = this.changed.event;
+  private treeView: vscode.TreeView<AssumptionNode>;
+
+  public constructor() {
+    this.treeView = vscode.window.createTreeView(AssumptionsView.viewId, {treeDataProvider: this});
+  }
+
+  public dispose() {
+    this.treeView.dispose();
+    this.changed.dispose();
+  }
+
+  /** Scans the whole workspace */
+  public async refresh() {
+    try {
+      const files = await CoqLanguageServer.getInstance().getWorkspaceAssumptions();
+      this.setFiles(files);
+    } catch(err) {
+      vscode.window.showErrorMessage("Cannot list the assumptions of the workspace: " + (err.message || err.toString()));
+    }
+  }
+
+  /** Only lists the assumptions of the document `uri` */
+  public async showDocument(uri: string) {
+    try {
+      const assumptions = await CoqLanguageServer.getInstance().getDocumentAssumptions(uri);
+      this.setFiles([{uri: uri, assumptions: assumptions}]);
+    } catch(err) {
+      vscode.window.showErrorMessage("Cannot list the assumptions of the document: " + (err.message || err.toString()));
+    }
+  }
+
+  /** Adds `name` to the top of the view, to show what it depends on */
+  public async addTheorem(uri: string, name: string) {
+    this.theorems = [{kind: "theorem", uri: uri, name: name}, ...this.theorems.filter(t => t.kind !== "theorem" || t.name !== name)];
+    this.changed.fire();
+    await this.treeView.reveal(this.theorems[0], {select: true, expand: true});
+  }
+
+  private setFiles(files: proto.FileAssumptions[]) {
+    this.files = files
+      .sort((x,y) => x.uri.localeCompare(y.uri))
+      .map<AssumptionNode>(f => ({kind: "file", uri: f.uri, assumptions: f.assumptions}));
+    this.changed.fire();
+    if(this.files.length === 0)
+      vscode.window.showInformationMessage("No admitted proof or axiom was found");
+  }
+
+  public getTreeItem(node: AssumptionNode) : vscode.TreeItem {
+    switch(node.kind) {
+      case "file": {
+        const item = new vscode.TreeItem(path.basename(vscode.Uri.parse(node.uri).fsPath), vscode.TreeItemCollapsibleState.Expanded);
+        item.description = `${node.assumptions.length}`;
+        item.tooltip = vscode.Uri.parse(node.uri).fsPath;
+        item.resourceUri = vscode.Uri.parse(node.uri);
+        return item;
+      }
+      case "assumption": {
+        const a = node.assumption;
+        // what an admitted proof depends on can be printed
+        const printable = a.kind !== "axiom" && a.kind !== "unsafe" && a.name !== "" && a.name !== "Goal";
+        const item = new vscode.TreeItem(a.name || kindLabels[a.kind],
+          printable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        item.description = `${kindLabels[a.kind]} — line ${a.range.start.line+1}`;
+        item.contextValue = 'coqAssumption';
+        item.command = {command: 'extension.coq.assumptions.reveal', title: 'Reveal', arguments: [node]};
+        return item;
+      }
+      case "theorem": {
+        const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = "Print Assumptions";
+        item.contextValue = 'coqAssumptionsTheorem';
+        return item;
+      }
+      case "output":
+        return new vscode.TreeItem(node.line, vscode.TreeItemCollapsibleState.None);
+    }
+  }
+
+  public async getChildren(node?: AssumptionNode) : Promise<AssumptionNode[]> {
+    if(!node)
+      return [...this.theorems, ...this.files];
+    switch(node.kind) {
+      case "file":
+        return node.assumptions.map<AssumptionNode>(a => ({kind: "assumption", uri: node.uri, assumption: a}));
+      case "assumption":
+        return await this.printAssumptions(node.uri, node.assumption.name);
+      case "theorem":
+        return await this.printAssumptions(node.uri, node.name);
+      default:
+        return [];
+    }
+  }
+
+  public getParent(node: AssumptionNode) : AssumptionNode|null {
+    return null;
+  }
+
+  /** The theorem is printed by coqtop of its own document if it is open, or else of the active document, which may require it */
+  private async printAssumptions(uri: string, name: string) : Promise<AssumptionNode[]> {
+    const project = getProject();
+    const doc = project.get(uri) || project.getActiveDoc();
+    if(!doc)
+      return [{kind: "output", line: `Open a script that requires ${name} to print its assumptions`}];
+    try {
+      const output = await CoqLanguageServer.getInstance().printAssumptions(doc.documentUri, name);
+      return output.split('\n').filter(line => line.trim() !== "").map<AssumptionNode>(line => ({kind: "output", line: line}));
+    } catch(err) {
+      return [{kind: "output", line: err.message || err.toString()}];
+    }
+  }
+
+  /** Shows the unproved sentence */
+  public async reveal(node: AssumptionNode) {
+    if(node.kind !== "assumption")
+      return;
+    const range = node.assumption.range;
+    await vscode.window.showTextDocument(vscode.Uri.parse(node.uri), {
+      selection: new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character)
+    });
+  }
+}
@@ -21,6 +21,8 @@ import {CoqView, adjacentPane} from './CoqView';
 import {StatusBar} from './StatusBar';
 import {CoqProject} from './CoqProject';
 import * as psm from './prettify-symbols-mode';
+import * as timingReport from './TimingReport';
+import * as nodeAsync from './nodejs-async';
 
 namespace DisplayOptionPicks {
   type T = vscode.QuickPickItem & {displayItem: number};
@@ -53,11 +55,15 @@ export class CoqDocument implements vscode.Disposable {
   private document: vscode.TextDocument;
   private langServer: CoqDocumentLanguageServer;
   private view : CoqView;
+  /** Shows the differences between two proof states */
+  private comparisonView : CoqView|null = null;
   /** Tracks which editors of this document have not had cursors positions changed since the last call to `rememberCursors()`. When stepping forward, the cursor is advanced for all editors whose cursors have not moved since the previous step. */
   private cursorUnmovedSinceCommandInitiated = new Set<vscode.TextEditor>();
   /** Coq STM focus  */
   private focus?: vscode.Position;
   private stateViewFocus?: vscode.Position;
+  /** The sentences of the proof shown by the proof view whose proof views are cached, and which of them is shown */
+  private timeline : {steps: vscode.Range[], index: number} = {steps: [], index: 0};
   private project: CoqProject;
   private currentLtacProfView: HtmlLtacProf|null = null;
   //private coqtopRunning = false;
@@ -92,6 +98,7 @@ export class CoqDocument implements vscode.Disposable {
     this.langServer.onReset((p) => this.onCoqReset());
     this.langServer.onUpdateCoqStmFocus((p) => this.updateFocus(p.position));
     this.langServer.onLtacProfResults((p) => this.onLtacProfResults(p));
+    this.langServer.onWorkers((workers) => this.project.workers.update(this.documentUri, workers));
     this.langServer.onCoqtopStart(p => {
       //this.coqtopRunning = true;
       this.statusBar.setCoqtopStatus(true);
@@ -101,8 +108,11 @@ export class CoqDocument implements vscode.Disposable {
       if(p.reason === proto.CoqtopStopReason.Anomaly || p.reason === proto.CoqtopStopReason.InternalError)
         vscode.window.showErrorMessage(p.message || "Coqtop quit for an unknown reason.")
       this.statusBar.setCoqtopStatus(false);
+      this.project.workers.update(this.documentUri, []);
     })
 
+    this.view.timelineStep((index) => this.showTimelineStep(index));
+
     this.view.resize(async (columns:number) => {
       try {
         await this.langServer.resizeView(Math.floor(columns));
@@ -144,9 +154,12 @@ export class CoqDocument implements vscode.Disposable {
 
   public dispose() {
     this.highlights.clearAll(this.allEditors());
+    this.project.workers.update(this.documentUri, []);
     this.statusBar.dispose();
     if(this.view)
       this.view.dispose();
+    if(this.comparisonView)
+      this.comparisonView.dispose();
     this.subscriptions.forEach((d) => d.dispose());
   }
 
@@ -251,6 +264,7 @@ export class CoqDocument implements vscode.Disposable {
 
   private onCoqReset() {
     this.reset();
+    this.project.workers.update(this.documentUri, []);
     this.statusBar.setStateReady();
   }
 
@@ -374,6 +388,61 @@ export class CoqDocument implements vscode.Disposable {
     }
     this.stateViewFocus = state.type==="proof-view" ? new vscode.Position(state.focus.line,state.focus.character) : undefined;
     this.showFocusDecorations();
+    this.updateTimeline(state);
+  }
+
+  /** Lists the cached steps of the proof whose state is shown */
+  private async updateTimeline(state: proto.CommandResult) {
+    for(let editor of this.allEditors())
+      editor.setDecorations(decorations.timelineStep, []);
+    let steps : vscode.Range[] = [];
+    let index = 0;
+    if(state.type === "proof-view") {
+      const focus = new vscode.Position(state.focus.line,state.focus.character);
+      try {
+        // the sentence that ends at the focus
+        steps = await this.langServer.getProofTimeline(focus.character > 0 ? focus.translate(0,-1) : focus);
+      } catch(err) {
+        console.warn("Cannot list the steps of the proof timeline: " + err.toString());
+      }
+      // Drop the steps if another proof state has been shown in the meantime
+      if(!this.stateViewFocus || !this.stateViewFocus.isEqual(focus))
+        return;
+      index = Math.max(steps.filter(r => r.end.isBeforeOrEqual(focus)).length - 1, 0);
+    }
+    this.timeline = {steps: steps, index: index};
+    this.view.updateTimeline(steps.length, index);
+  }
+
+  /** Shows the cached proof view of a step of the timeline and highlights its sentence, without running coqtop */
+  public async showTimelineStep(index: number) {
+    const step = this.timeline.steps[index];
+    if(!step)
+      return;
+    try {
+      const proofview = await this.langServer.getCachedGoal(step.end, "preceding");
+      if(proofview.type !== "proof-view" || this.timeline.steps[index] !== step)
+        return;
+      this.timeline.index = index;
+      this.view.update(proofview);
+      this.view.updateTimeline(this.timeline.steps.length, index);
+      this.stateViewFocus = step.end;
+      this.showFocusDecorations();
+      for(let editor of this.allEditors()) {
+        editor.setDecorations(decorations.timelineStep, [step]);
+        editor.revealRange(step, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+      }
+    } catch(err) {
+      console.warn("Cannot show the step of the proof timeline: " + err.toString());
+    }
+  }
+
+  public async showPreviousTimelineStep(editor: TextEditor) {
+    await this.showTimelineStep(this.timeline.index - 1);
+  }
+
+  public async showNextTimelineStep(editor: TextEditor) {
+    await this.showTimelineStep(this.timeline.index + 1);
   }
 
   private showFocusDecorations() {
@@ -477,6 +546,55 @@ export class CoqDocument implements vscode.Disposable {
     }
   }
 
+  /** Writes the cases of the `match`, `destruct` or `induction` at `position` */
+  public async makeCases(position: vscodeTypes.Position) {
+    try {
+      const edit = new vscode.WorkspaceEdit();
+      edit.set(this.document.uri, await this.langServer.makeCases(position));
+      await vscode.workspace.applyEdit(edit);
+    } catch (err) {
+      vscode.window.showErrorMessage("Cannot generate the cases: " + (err.message || err.toString()));
+    }
+  }
+
+  /** Searches with the arguments of a `Search` command and lists the results */
+  public async search(query: string | undefined) {
+    if (!query)
+      return;
+    this.statusBar.setStateWorking('Searching');
+    try {
+      await this.project.searchResults.setResults(this.documentUri, await this.langServer.search(query));
+    } catch (err) {
+      vscode.window.showErrorMessage("Search failed: " + (err.message || err.toString()));
+    } finally {
+      this.statusBar.setStateReady();
+    }
+  }
+
+  /** Saves how long Coq took to process each sentence and proof, as CSV or JSON depending on the chosen file name */
+  public async exportTimingReport(editor: TextEditor) {
+    try {
+      const report = await this.langServer.getTimingReport();
+      if(report.sentences.length === 0) {
+        vscode.window.showInformationMessage("No sentence has been processed yet");
+        return;
+      }
+      const file = this.document.uri.fsPath;
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(file.replace(/\.v$/, '') + '.timing.csv'),
+        filters: {'CSV': ['csv'], 'JSON': ['json']},
+      });
+      if(!target)
+        return;
+      const contents = path.extname(target.fsPath) === '.json'
+        ? timingReport.toJSON(file, report)
+        : timingReport.toCSV(report);
+      await nodeAsync.fs.writeFile(target.fsPath, contents, {encoding: 'utf8'});
+    } catch (err) {
+      vscode.window.showErrorMessage("Cannot export the timing report: " + (err.message || err.toString()));
+    }
+  }
+
   public async viewGoalState(editor: TextEditor) {
     try {
       if (editor.viewColumn)
@@ -562,6 +680,51 @@ export class CoqDocument implements vscode.Disposable {
     } catch(err) { }
  }
 
+ /**
+  * Shows the later of the proof states at two cursors, highlighting its differences from the earlier one;
+  * with a single cursor, the proof state at the cursor is compared with an earlier step of the proof that the user picks
+  */
+ public async compareProofStateWith(editor: vscode.TextEditor) {
+    const direction = this.project.settings.revealProofStateAtCursorDirection;
+    let pos = editor.selection.active;
+    let basePos : vscode.Position;
+    if(editor.selections.length > 1) {
+      // the earlier proof state is the base of the comparison
+      [basePos, pos] = [editor.selections[1].active, pos].sort((a, b) => a.compareTo(b));
+    } else {
+      const steps = (await this.langServer.getProofTimeline(pos)).filter(step => step.end.isBeforeOrEqual(pos));
+      if(steps.length === 0) {
+        vscode.window.showInformationMessage("There is no earlier step of the proof to compare with");
+        return;
+      }
+      const pick = await vscode.window.showQuickPick(steps.map(step => ({
+        label: this.document.getText(step).trim().split(/\r?\n/)[0],
+        description: `line ${step.start.line+1}`,
+        step: step,
+      })), {placeHolder: "Compare the proof state at the cursor with the proof state after…"});
+      if(!pick)
+        return;
+      // the position of the state of this sentence in the direction of the cached goals
+      basePos = direction === "subsequent" ? pick.step.start : pick.step.end;
+    }
+
+    try {
+      const state = await this.langServer.getCachedGoalComparison(basePos, pos, direction);
+      if(state.type !== "proof-view") {
+        vscode.window.showInformationMessage("There is no cached proof state to compare at both positions");
+        return;
+      }
+      if(!this.comparisonView)
+        this.comparisonView = new HtmlCoqView(this.document.uri, extensionContext, "Compare proof states");
+      if(this.comparisonView.isVisible())
+        this.comparisonView.update(state);
+      else
+        await this.comparisonView.show(editor.viewColumn ? adjacentPane(editor.viewColumn) : vscode.ViewColumn.One, state);
+    } catch(err) {
+      vscode.window.showErrorMessage("Cannot compare the proof states: " + (err.message || err.toString()));
+    }
+ }
+
  public getCurrentFocus() {
    return this.focus;
  }
@@ -102,6 +102,11 @@ export class CoqLanguageServer implements vscode.Disposable {
           if(doc)
             doc.onCoqtopStop.forEach(l => l(p));
         });
+        this.server.onNotification(proto.CoqWorkersNotification.type, (p) => {
+          const doc = this.documentCallbacks.get(p.uri);
+          if(doc)
+            doc.onWorkers.forEach(l => l(p.workers));
+        });
         console.log("Coq language server ready")
       }, (reason) =>
         console.log("Coq language server failed to load: " + reason.toString()));
@@ -194,6 +199,17 @@ export class CoqLanguageServer implements vscode.Disposable {
     return await this.server.sendRequest(proto.CachedGoalRequest.type, { uri: uri, position: pos, direction: direction }, this.cancelRequest.token);
   }
 
+  public async getCachedGoalComparison(uri: string, basePos: vscode.Position, pos: vscode.Position, direction: "preceding"|"subsequent"): Promise<proto.CommandResult> {
+    await this.server.onReady();
+    return await this.server.sendRequest(proto.CompareCachedGoalsRequest.type, { uri: uri, basePosition: basePos, position: pos, direction: direction }, this.cancelRequest.token);
+  }
+
+  public async getProofTimeline(uri: string, pos: vscode.Position): Promise<vscode.Range[]> {
+    await this.server.onReady();
+    const ranges = await this.server.sendRequest(proto.ProofTimelineRequest.type, { uri: uri, position: pos }, this.cancelRequest.token);
+    return ranges.map(r => this.server.protocol2CodeConverter.asRange(r));
+  }
+
   public async finishComputations(uri: string): Promise<void> {
     await this.server.onReady();
     return await this.server.sendRequest(proto.FinishComputationsRequest.type, { uri: uri }, this.cancelRequest.token);
@@ -239,6 +255,55 @@ export class CoqLanguageServer implements vscode.Disposable {
     return this.server.sendRequest(proto.GetSentencePrefixTextRequest.type, { uri: uri, position: pos }, token || this.cancelRequest.token);
   }
 
+  public async search(uri: string, query: string): Promise<proto.SearchResult[]> {
+    await this.server.onReady();
+    return this.server.sendRequest(proto.SearchRequest.type, { uri: uri, query: query }, this.cancelRequest.token);
+  }
+
+  public async getDefinitionOfName(uri: string, module: string, name: string): Promise<vscodeClient.Location|null> {
+    await this.server.onReady();
+    return this.server.sendRequest(proto.DefinitionOfNameRequest.type, { uri: uri, module: module, name: name }, this.cancelRequest.token);
+  }
+
+  public async getSelectionRanges(uri: string, positions: vscode.Position[], token?: vscode.CancellationToken): Promise<vscode.SelectionRange[]> {
+    await this.server.onReady();
+    const ranges = await this.server.sendRequest(proto.SelectionRangeRequest.type, { uri: uri, positions: positions }, token || this.cancelRequest.token);
+    const toSelectionRange = (r: proto.SelectionRange) : vscode.SelectionRange =>
+      new vscode.SelectionRange(this.server.protocol2CodeConverter.asRange(r.range), r.parent ? toSelectionRange(r.parent) : undefined);
+    return ranges.map(toSelectionRange);
+  }
+
+  public async getDocumentAssumptions(uri: string): Promise<proto.Assumption[]> {
+    await this.server.onReady();
+    return this.server.sendRequest(proto.DocumentAssumptionsRequest.type, { uri: uri }, this.cancelRequest.token);
+  }
+
+  public async getWorkspaceAssumptions(): Promise<proto.FileAssumptions[]> {
+    await this.server.onReady();
+    return this.server.sendRequest(proto.WorkspaceAssumptionsRequest.type, this.cancelRequest.token);
+  }
+
+  public async printAssumptions(uri: string, name: string): Promise<string> {
+    await this.server.onReady();
+    return this.server.sendRequest(proto.PrintAssumptionsRequest.type, { uri: uri, name: name }, this.cancelRequest.token);
+  }
+
+  public async getTimingReport(uri: string): Promise<proto.TimingReport> {
+    await this.server.onReady();
+    return this.server.sendRequest(proto.TimingReportRequest.type, { uri: uri }, this.cancelRequest.token);
+  }
+
+  public async stopWorker(uri: string, worker: string): Promise<void> {
+    await this.server.onReady();
+    return this.server.sendRequest(proto.StopWorkerRequest.type, { uri: uri, worker: worker }, this.cancelRequest.token);
+  }
+
+  public async makeCases(uri: string, position: vscodeClient.Position): Promise<vscode.TextEdit[]> {
+    await this.server.onReady();
+    const edits = await this.server.sendRequest(proto.MakeCasesRequest.type, { uri: uri, position: position }, this.cancelRequest.token);
+    return this.server.protocol2CodeConverter.asTextEdits(edits);
+  }
+
   public async query(uri: string, query: "locate"|"check"|"print"|"search"|"about"|"searchAbout", term: string, routeId:Number): Promise<void> {
     await this.server.onReady();
     const params : proto.CoqTopQueryParams =
@@ -269,6 +334,7 @@ interface DocumentCallbacks {
   onLtacProfResults: ((params: proto.LtacProfResults) => void)[],
   onCoqtopStart: ((params: proto.NotificationParams) => void)[],
   onCoqtopStop: ((params: proto.NotifyCoqtopStopParams) => void)[],
+  onWorkers: ((workers: proto.WorkerStatus[]) => void)[],
 }
 
 function removeFromArray<T>(arr: T[], item: T) {
@@ -292,6 +358,7 @@ export class CoqDocumentLanguageServer implements vscode.Disposable {
     onLtacProfResults: [],
     onCoqtopStart: [],
     onCoqtopStop: [],
+    onWorkers: [],
   };
 
   public constructor(
@@ -309,6 +376,7 @@ export class CoqDocumentLanguageServer implements vscode.Disposable {
       onLtacProfResults: [],
       onCoqtopStart: [],
       onCoqtopStop: [],
+      onWorkers: [],
     };
     this.server.unregisterDocument(this.uri);
   }
@@ -342,6 +410,10 @@ export class CoqDocumentLanguageServer implements vscode.Disposable {
     return registerCallback(this.callbacks.onCoqtopStop, listener);
   }
 
+  public onWorkers(listener: (workers: proto.WorkerStatus[]) => void) {
+    return registerCallback(this.callbacks.onWorkers, listener);
+  }
+
   public async interruptCoq() {
     await this.server.interruptCoq(this.uri);
   }
@@ -362,6 +434,14 @@ export class CoqDocumentLanguageServer implements vscode.Disposable {
     return this.server.getCachedGoal(this.uri, pos, direction);
   }
 
+  public getCachedGoalComparison(basePos: vscode.Position, pos: vscode.Position, direction: "preceding"|"subsequent"): Thenable<proto.CommandResult> {
+    return this.server.getCachedGoalComparison(this.uri, basePos, pos, direction);
+  }
+
+  public getProofTimeline(pos: vscode.Position): Thenable<vscode.Range[]> {
+    return this.server.getProofTimeline(this.uri, pos);
+  }
+
   public finishComputations(): Thenable<void> {
     return this.server.finishComputations(this.uri);
   }
@@ -394,6 +474,18 @@ export class CoqDocumentLanguageServer implements vscode.Disposable {
     return this.server.query(this.uri, query, term, routeId);
   }
 
+  public makeCases(position: vscodeClient.Position): Thenable<vscode.TextEdit[]> {
+    return this.server.makeCases(this.uri, position);
+  }
+
+  public search(query: string): Thenable<proto.SearchResult[]> {
+    return this.server.search(this.uri, query);
+  }
+
+  public getTimingReport(): Thenable<proto.TimingReport> {
+    return this.server.getTimingReport(this.uri);
+  }
+
   public setDisplayOptions(options: { item: proto.DisplayOption, value: proto.SetDisplayOption }[]): Thenable<void> {
     return this.server.setDisplayOptions(this.uri, options);
   }
@@ -5,6 +5,9 @@ import * as proto from './protocol'
 import {CoqDocument} from './CoqDocument'
 export {CoqDocument} from './CoqDocument'
 import {CoqLanguageServer} from './CoqLanguageServer'
+import {SearchResultsView} from './SearchResultsView'
+import {WorkersView} from './WorkersView'
+import {AssumptionsView} from './AssumptionsView'
 import * as editorAssist from './EditorAssist'
 
 export function getProject() : CoqProject {
@@ -30,6 +33,9 @@ export class CoqProject implements vscode.Disposable {
   private queryOutput: vscode.OutputChannel = vscode.window.createOutputChannel('Queries');
   private noticeOutput: vscode.OutputChannel = vscode.window.createOutputChannel('Notices');
   private debugOutput: vscode.OutputChannel = vscode.window.createOutputChannel('Debug');
+  private searchResultsView = new SearchResultsView();
+  private workersView = new WorkersView();
+  private assumptionsView = new AssumptionsView();
 
   private constructor(context: vscode.ExtensionContext) {
     this.langServer = CoqLanguageServer.create(context);
@@ -82,12 +88,26 @@ export class CoqProject implements vscode.Disposable {
   public get debugOut(): vscode.OutputChannel {
     return this.debugOutput;
   }
+  public get searchResults(): SearchResultsView {
+    return this.searchResultsView;
+  }
+
+  public get workers(): WorkersView {
+    return this.workersView;
+  }
+
+  public get assumptions(): AssumptionsView {
+    return this.assumptionsView;
+  }
 
   dispose() {
     this.infoOutput.dispose();
     this.queryOutput.dispose();
+    this.searchResultsView.dispose();
     this.noticeOutput.dispose();
     this.documents.forEach((doc) => doc.dispose());
+    this.workersView.dispose();
+    this.assumptionsView.dispose();
     this.subscriptions.forEach((s) => s.dispose());
     this.langServer.dispose();
     this.subscriptions = [];
@@ -243,6 +263,18 @@ export class CoqProject implements vscode.Disposable {
     return this.tryDocumentCommand(CoqDocument.prototype.finishComputations);
   }
 
+  public exportTimingReport() {
+    return this.tryDocumentCommand(CoqDocument.prototype.exportTimingReport,true,false);
+  }
+
+  public showPreviousTimelineStep() {
+    return this.tryDocumentCommand(CoqDocument.prototype.showPreviousTimelineStep,true,false);
+  }
+
+  public showNextTimelineStep() {
+    return this.tryDocumentCommand(CoqDocument.prototype.showNextTimelineStep,true,false);
+  }
+
   public ltacProfGetResults() {
     return this.tryDocumentCommand(CoqDocument.prototype.ltacProfGetResults);
   }
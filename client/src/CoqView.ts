@@ -55,6 +55,10 @@ export interface CoqView extends vscode.Disposable {
   update(state: proto.CommandResult) : void;
   // message(message: string) : void;
   readonly resize : vscode.Event<number>;
+  /** Shows the position `index` of the current proof among its `length` cached steps, or hides the timeline if `length < 2` */
+  updateTimeline(length: number, index: number) : void;
+  /** The user moved to the step of the timeline at this index */
+  readonly timelineStep : vscode.Event<number>;
 
   show(pane: vscode.ViewColumn, state?: proto.CommandResult) : Promise<void>;
 
@@ -15,6 +15,15 @@ interface DecorationsInternal extends Decorations {
   focus : vscode.TextEditorDecorationType;
   focusBefore : vscode.TextEditorDecorationType;
   proofViewFocus : vscode.TextEditorDecorationType;
+  /** the sentence of the step of the proof timeline that is shown */
+  timelineStep : vscode.TextEditorDecorationType;
+  constant: vscode.TextEditorDecorationType;
+  inductive: vscode.TextEditorDecorationType;
+  inductiveConstructor: vscode.TextEditorDecorationType;
+  variable: vscode.TextEditorDecorationType;
+  notation: vscode.TextEditorDecorationType;
+  /** indexed by the heat of slow sentences */
+  slow: [vscode.TextEditorDecorationType,vscode.TextEditorDecorationType,vscode.TextEditorDecorationType];
 }
 
 type Decorations = Readonly<DecorationsInternal>;
@@ -86,6 +95,55 @@ export function initializeDecorations(context: vscode.ExtensionContext) {
       gutterIconPath: context.asAbsolutePath(STM_FOCUS_IMAGE_PROOF_VIEW),
       gutterIconSize: "contain"
     }),
+    timelineStep: create({
+      borderWidth: '1px',
+      borderStyle: 'dashed',
+      overviewRulerColor: 'rgba(32, 165, 218,0.7)',
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+      light: {borderColor: 'rgba(32, 165, 218,0.9)'},
+      dark: {borderColor: 'rgba(32, 165, 218,0.9)'},
+    }),
+    constant: create({
+      light: {color: '#795e26'},
+      dark: {color: '#dcdcaa'},
+    }),
+    inductive: create({
+      light: {color: '#267f99'},
+      dark: {color: '#4ec9b0'},
+    }),
+    inductiveConstructor: create({
+      light: {color: '#0070c1'},
+      dark: {color: '#4fc1ff'},
+    }),
+    variable: create({
+      light: {color: '#001080'},
+      dark: {color: '#9cdcfe'},
+    }),
+    notation: create({
+      light: {color: '#af00db'},
+      dark: {color: '#c586c0'},
+    }),
+    slow:
+      [ create({
+          overviewRulerColor: 'rgba(255,165,0,0.5)',
+          overviewRulerLane: vscode.OverviewRulerLane.Left,
+          after: {margin: '0 0 0 1em', color: 'rgba(255,165,0,0.8)'},
+        })
+      , create({
+          overviewRulerColor: 'rgba(255,100,0,0.8)',
+          overviewRulerLane: vscode.OverviewRulerLane.Left,
+          after: {margin: '0 0 0 1em', color: 'rgba(255,100,0,0.9)'},
+          light: {backgroundColor: 'rgba(255,100,0,0.15)'},
+          dark: {backgroundColor: 'rgba(255,100,0,0.15)'},
+        })
+      , create({
+          overviewRulerColor: 'red',
+          overviewRulerLane: vscode.OverviewRulerLane.Left,
+          after: {margin: '0 0 0 1em', color: 'red', fontWeight: 'bold'},
+          light: {backgroundColor: 'rgba(255,0,0,0.25)'},
+          dark: {backgroundColor: 'rgba(255,0,0,0.25)'},
+        })
+      ],
   };
 
   decorations = decorationsInternal;
@@ -12,11 +12,27 @@ function toRange(range: {start: {line: number, character: number}, end: {line: n
   return new vscode.Range(range.start.line,range.start.character,range.end.line,range.end.character);
 }
 
+export function formatTime(ms: number) : string {
+  return ms >= 1000 ? `${(ms/1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+}
+
+/** Shows how long the sentence took after its end */
+function toSlowSentenceDecoration(timing: proto.SentenceTiming) : vscode.DecorationOptions {
+  const range = toRange(timing.range);
+  return {
+    range: range,
+    hoverMessage: `Coq took ${formatTime(timing.time)} to process this sentence`,
+    renderOptions: {after: {contentText: formatTime(timing.time)}},
+  };
+}
+
 export class Highlights {
   // private textHighlights : {decoration: vscode.TextEditorDecorationType, ranges: RangeSet}[] = [];
   // private textHighlights : vscode.TextEditorDecorationType[];
-  private current : {ranges: [ vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[] ]}
-    = { ranges: [ [], [], [], [], [], [] ] };
+  private current : {ranges: [ vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[] ],
+    semanticTokens: [ vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[], vscode.Range[] ],
+    slowSentences: [ vscode.DecorationOptions[], vscode.DecorationOptions[], vscode.DecorationOptions[] ]}
+    = { ranges: [ [], [], [], [], [], [] ], semanticTokens: [ [], [], [], [], [] ], slowSentences: [ [], [], [] ] };
 
   constructor() {
     // this.textHighlights[proto.HighlightType.Parsing   ] = parsingTextDecoration;
@@ -36,12 +52,24 @@ export class Highlights {
        , highlights.ranges[3].map(toRange)
        , highlights.ranges[4].map(toRange)
        , highlights.ranges[5].map(toRange)
+       ]
+      , semanticTokens:
+       [ highlights.semanticTokens[0].map(toRange)
+       , highlights.semanticTokens[1].map(toRange)
+       , highlights.semanticTokens[2].map(toRange)
+       , highlights.semanticTokens[3].map(toRange)
+       , highlights.semanticTokens[4].map(toRange)
+       ]
+      , slowSentences:
+       [ highlights.slowSentences[0].map(toSlowSentenceDecoration)
+       , highlights.slowSentences[1].map(toSlowSentenceDecoration)
+       , highlights.slowSentences[2].map(toSlowSentenceDecoration)
        ]};
     this.applyCurrent(editors);
   }
 
   public clearAll(editors: Iterable<TextEditor>) {
-    this.current = { ranges: [ [], [], [], [], [], [] ] };
+    this.current = { ranges: [ [], [], [], [], [], [] ], semanticTokens: [ [], [], [], [], [] ], slowSentences: [ [], [], [] ] };
     this.applyCurrent(editors);
   }
 
@@ -57,6 +85,12 @@ export class Highlights {
       editor.setDecorations(decorations.incomplete , this.current.ranges[proto.HighlightType.Incomplete]);
       editor.setDecorations(decorations.axiom      , this.current.ranges[proto.HighlightType.Axiom]);
       editor.setDecorations(decorations.processed  , this.current.ranges[proto.HighlightType.Processed]); 
+      editor.setDecorations(decorations.constant   , this.current.semanticTokens[proto.SemanticTokenType.Constant]);
+      editor.setDecorations(decorations.inductive  , this.current.semanticTokens[proto.SemanticTokenType.Inductive]);
+      editor.setDecorations(decorations.inductiveConstructor, this.current.semanticTokens[proto.SemanticTokenType.Constructor]);
+      editor.setDecorations(decorations.variable   , this.current.semanticTokens[proto.SemanticTokenType.Variable]);
+      editor.setDecorations(decorations.notation   , this.current.semanticTokens[proto.SemanticTokenType.Notation]);
+      decorations.slow.forEach((decoration, heat) => editor.setDecorations(decoration, this.current.slowSentences[heat]));
     }
   }
 
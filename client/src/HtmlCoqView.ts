@@ -12,18 +12,35 @@ import mustache = require('mustache');
 
 interface ControllerEvent {
   eventName: string;
-  params: ResizeEvent // | | | | | ;
+  params: ResizeEvent | InsertTacticEvent | TimelineStepEvent // | | | ;
 }
 
 interface ResizeEvent {
   columns: number;
 }
 
+interface InsertTacticEvent {
+  tactic: string;
+}
+
+interface TimelineStepEvent {
+  index: number;
+}
+
 interface GoalUpdate {
   command: 'goal-update',
   goal: proto.CommandResult
 }
 
+interface TimelineUpdate extends TimelineState {
+  command: 'timeline-update'
+}
+
+interface TimelineState {
+  length: number,
+  index: number,
+}
+
 interface SettingsUpdate extends SettingsState {
   command: 'settings-update'
 }
@@ -36,7 +53,7 @@ interface SettingsState {
 }
 
 
-type ProofViewProtocol = GoalUpdate | SettingsUpdate;
+type ProofViewProtocol = GoalUpdate | TimelineUpdate | SettingsUpdate;
 
 const VIEW_PATH = 'html_views';
 
@@ -55,10 +72,12 @@ function proofViewHtmlPath() {
  */
 export class HtmlCoqView implements view.CoqView {
   private docUri: vscode.Uri;
+  private title: string;
   private coqViewUri : vscode.Uri;
   private currentSettings : SettingsState = {};
   private visible = false;
   private initialState : undefined | proto.CommandResult;
+  private timeline : TimelineState = {length: 0, index: 0};
 
   private panel : vscode.WebviewPanel | null = null;
 
@@ -66,10 +85,15 @@ export class HtmlCoqView implements view.CoqView {
 
   public get resize() : vscode.Event<number> { return this.resizeEvent.event; }
 
-  constructor(uri: vscode.Uri, context: vscode.ExtensionContext) {
+  private timelineStepEvent = new vscode.EventEmitter<number>();
+
+  public get timelineStep() : vscode.Event<number> { return this.timelineStepEvent.event; }
+
+  constructor(uri: vscode.Uri, context: vscode.ExtensionContext, title = "ProofView") {
     context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(() => this.updateSettings()))
 
     this.docUri = uri;
+    this.title = title;
 
     psm.onEnabledChange((enabled) => {
       this.currentSettings.prettifySymbolsMode = enabled;
@@ -81,11 +105,24 @@ export class HtmlCoqView implements view.CoqView {
     this.resizeEvent.fire(event.columns);
   }
 
+  /** Inserts the tactic of a hint at the cursor of the document's editor */
+  private async handleClientInsertTactic(event: InsertTacticEvent) {
+    const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === this.docUri.toString());
+    if(editor)
+      await editor.edit(edit => edit.insert(editor.selection.active, event.tactic));
+  }
+
   private handleClientMessage(event: string) {
     const message = <ControllerEvent>JSON.parse(event);
     switch(message.eventName) {
       case 'resize':
-        this.handleClientResize(message.params);
+        this.handleClientResize(message.params as ResizeEvent);
+        return;
+      case 'insertTactic':
+        this.handleClientInsertTactic(message.params as InsertTacticEvent);
+        return;
+      case 'timelineStep':
+        this.timelineStepEvent.fire((message.params as TimelineStepEvent).index);
         return;
       case 'focus':
         docs.getProject().setActiveDoc(this.docUri);
@@ -93,6 +130,7 @@ export class HtmlCoqView implements view.CoqView {
       case 'getInitialGoal':
         if (this.initialState)
           this.update(this.initialState);
+        this.updateTimeline(this.timeline.length, this.timeline.index);
         return;
     }
   }
@@ -118,7 +156,7 @@ export class HtmlCoqView implements view.CoqView {
     if (this.panel === null) {
       this.panel = vscode.window.createWebviewPanel(
         'html_coq',
-        "ProofView: " + path.basename(this.docUri.fsPath),
+        this.title + ": " + path.basename(this.docUri.fsPath),
         { preserveFocus: true,
           viewColumn: pane,
         },
@@ -179,6 +217,11 @@ export class HtmlCoqView implements view.CoqView {
     this.updateClient(state);
   }
 
+  public updateTimeline(length: number, index: number) {
+    this.timeline = {length: length, index: index};
+    this.sendMessage({command: 'timeline-update', length: length, index: index});
+  }
+
 
   private async updateSettings() {
     this.currentSettings.fontFamily = vscode.workspace.getConfiguration("editor").get("fontFamily") as string;
@@ -0,0 +1,119 @@
+'use strict';
+import * as vscode from 'vscode';
+import * as proto from './protocol';
+import { CoqLanguageServer } from './CoqLanguageServer';
+import { getProject } from './CoqProject';
+
+type SortOrder = "relevance" | "name" | "module";
+
+function qualifiedName(result: proto.SearchResult) : string {
+  return result.module ? result.module + "." + result.name : result.name;
+}
+
+/**
+ * Lists the results of the latest `Search` of a document; the results can be filtered, sorted,
+ * inserted at the cursor, or used to go to their definitions or query `About`
+ */
+export class SearchResultsView implements vscode.TreeDataProvider<proto.SearchResult>, vscode.Disposable {
+  public static readonly viewId = 'coqSearchResults';
+  private docUri: string|null = null;
+  private results: proto.SearchResult[] = [];
+  private filterText = "";
+  private sortOrder: SortOrder = "relevance";
+  private changed = new vscode.EventEmitter<proto.SearchResult|undefined>();
+  public readonly onDidChangeTreeData = this.changed.event;
+  private treeView: vscode.TreeView<proto.SearchResult>;
+
+  public constructor() {
+    this.treeView = vscode.window.createTreeView(SearchResultsView.viewId, {treeDataProvider: this});
+  }
+
+  public dispose() {
+    this.treeView.dispose();
+    this.changed.dispose();
+  }
+
+  public async setResults(docUri: string, results: proto.SearchResult[]) {
+    this.docUri = docUri;
+    this.results = results;
+    this.filterText = "";
+    this.changed.fire();
+    const first = this.getChildren()[0];
+    if(first)
+      await this.treeView.reveal(first, {select: false, focus: false});
+    else
+      vscode.window.showInformationMessage("Search: no results");
+  }
+
+  public getTreeItem(result: proto.SearchResult) : vscode.TreeItem {
+    const item = new vscode.TreeItem(result.name, vscode.TreeItemCollapsibleState.None);
+    item.description = result.type;
+    item.tooltip = `${qualifiedName(result)} : ${result.type}`;
+    item.contextValue = 'coqSearchResult';
+    item.command = {command: 'extension.coq.search.insert', title: 'Insert', arguments: [result]};
+    return item;
+  }
+
+  public getChildren(result?: proto.SearchResult) : proto.SearchResult[] {
+    if(result)
+      return [];
+    const filter = this.filterText.toLowerCase();
+    const results = this.results.filter(r =>
+      qualifiedName(r).toLowerCase().includes(filter) || r.type.toLowerCase().includes(filter));
+    switch(this.sortOrder) {
+      case "name":
+        return results.sort((x,y) => x.name.localeCompare(y.name));
+      case "module":
+        return results.sort((x,y) => x.module.localeCompare(y.module) || x.name.localeCompare(y.name));
+      default:
+        return results;
+    }
+  }
+
+  public getParent(result: proto.SearchResult) : null {
+    return null;
+  }
+
+  public async filter() {
+    const text = await vscode.window.showInputBox({prompt: "Show the results whose name or type contains:", value: this.filterText});
+    if(text === undefined)
+      return;
+    this.filterText = text;
+    this.changed.fire();
+  }
+
+  public async sort() {
+    const order = await vscode.window.showQuickPick(["relevance", "name", "module"], {placeHolder: "Sort the results by"});
+    if(!order)
+      return;
+    this.sortOrder = order as SortOrder;
+    this.changed.fire();
+  }
+
+  /** Inserts the name of `result` at the cursor of the searched document */
+  public async insert(result: proto.SearchResult) {
+    const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === this.docUri);
+    if(editor)
+      await editor.edit(edit => edit.replace(editor.selection, result.name));
+  }
+
+  public async gotoDefinition(result: proto.SearchResult) {
+    if(!this.docUri)
+      return;
+    const location = await CoqLanguageServer.getInstance().getDefinitionOfName(this.docUri, result.module, result.name);
+    if(!location) {
+      vscode.window.showInformationMessage(`Cannot find the definition of ${qualifiedName(result)}`);
+      return;
+    }
+    const range = location.range;
+    await vscode.window.showTextDocument(vscode.Uri.parse(location.uri), {
+      selection: new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character)
+    });
+  }
+
+  public async about(result: proto.SearchResult) {
+    const doc = this.docUri ? getProject().get(this.docUri) : null;
+    if(doc)
+      await doc.query("about", qualifiedName(result));
+  }
+}
@@ -0,0 +1,30 @@
+'use strict';
+import * as proto from './protocol';
+
+function csvField(value: string|number) : string {
+  const str = value.toString();
+  return /[",\r\n]/.test(str) ? '"' + str.replace(/"/g, '""') + '"' : str;
+}
+
+/**
+ * One row per proof, then one row per sentence, each sorted by cost.
+ * Lines are 1-based; times are in milliseconds; `delegated` marks the proofs whose time leaves out the sentences checked by a worker.
+ */
+export function toCSV(report: proto.TimingReport) : string {
+  const rows : (string|number)[][] = [["kind", "name", "start_line", "end_line", "time_ms", "sentences", "delegated"]];
+  for(let proof of report.proofs)
+    rows.push(["proof", proof.name, proof.range.start.line+1, proof.range.end.line+1, proof.time.toFixed(1), proof.sentences, proof.delegated ? 1 : 0]);
+  for(let sent of report.sentences)
+    rows.push(["sentence", sent.command, sent.range.start.line+1, sent.range.end.line+1, sent.time.toFixed(1), 1, 0]);
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export function toJSON(file: string, report: proto.TimingReport) : string {
+  const line = (r: {range: {start: {line: number}, end: {line: number}}}) => ({startLine: r.range.start.line+1, endLine: r.range.end.line+1});
+  return JSON.stringify({
+    file: file,
+    totalTime: report.sentences.reduce((total, sent) => total + sent.time, 0),
+    proofs: report.proofs.map(p => ({name: p.name, ...line(p), time: p.time, sentences: p.sentences, delegated: p.delegated})),
+    sentences: report.sentences.map(s => ({command: s.command, ...line(s), time: s.time})),
+  }, null, 2);
+}
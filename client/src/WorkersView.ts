@@ -0,0 +1,82 @@
+'use strict';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as proto from './protocol';
+import { CoqLanguageServer } from './CoqLanguageServer';
+
+/** A worker of the coqtop instance of a document */
+export interface WorkerItem {
+  uri: string;
+  worker: proto.WorkerStatus;
+}
+
+/**
+ * Lists the workers that coqtop spawned to check proofs asynchronously, what each is checking, and its state;
+ * a worker can be stopped without resetting its document
+ */
+export class WorkersView implements vscode.TreeDataProvider<WorkerItem>, vscode.Disposable {
+  public static readonly viewId = 'coqWorkers';
+  private workers = new Map<string, proto.WorkerStatus[]>();
+  private changed = new vscode.EventEmitter<WorkerItem|undefined>();
+  public readonly onDidChangeTreeData = this.changed.event;
+  private treeView: vscode.TreeView<WorkerItem>;
+
+  public constructor() {
+    this.treeView = vscode.window.createTreeView(WorkersView.viewId, {treeDataProvider: this});
+  }
+
+  public dispose() {
+    this.treeView.dispose();
+    this.changed.dispose();
+  }
+
+  /** Replaces the workers of the document `uri`; they are removed if `workers` is empty */
+  public update(uri: string, workers: proto.WorkerStatus[]) {
+    if(workers.length > 0)
+      this.workers.set(uri, workers);
+    else if(!this.workers.delete(uri))
+      return;
+    this.changed.fire();
+  }
+
+  public getTreeItem(item: WorkerItem) : vscode.TreeItem {
+    const worker = item.worker;
+    const treeItem = new vscode.TreeItem(worker.ident ? `${worker.id}: ${worker.ident}` : worker.id, vscode.TreeItemCollapsibleState.None);
+    const file = path.basename(vscode.Uri.parse(item.uri).fsPath);
+    treeItem.description = `${proto.WorkerState[worker.state]} — ${file}`;
+    treeItem.tooltip = worker.range
+      ? `${proto.WorkerState[worker.state]}; last assigned the sentence at ${file}:${worker.range.start.line+1}`
+      : proto.WorkerState[worker.state];
+    treeItem.contextValue = worker.state === proto.WorkerState.Dead ? 'coqDeadWorker' : 'coqWorker';
+    if(worker.range)
+      treeItem.command = {command: 'extension.coq.workers.reveal', title: 'Reveal', arguments: [item]};
+    return treeItem;
+  }
+
+  public getChildren(item?: WorkerItem) : WorkerItem[] {
+    if(item)
+      return [];
+    const items : WorkerItem[] = [];
+    this.workers.forEach((workers, uri) => items.push(...workers.map(w => ({uri: uri, worker: w}))));
+    return items;
+  }
+
+  /** Kills a runaway worker; the proofs that it was checking fail */
+  public async stop(item: WorkerItem) {
+    try {
+      await CoqLanguageServer.getInstance().stopWorker(item.uri, item.worker.id);
+    } catch(err) {
+      vscode.window.showErrorMessage(`Cannot stop the worker ${item.worker.id}: ` + (err.message || err.toString()));
+    }
+  }
+
+  /** Shows the sentence that was last assigned to the worker */
+  public async reveal(item: WorkerItem) {
+    const range = item.worker.range;
+    if(!range)
+      return;
+    await vscode.window.showTextDocument(vscode.Uri.parse(item.uri), {
+      selection: new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character)
+    });
+  }
+}
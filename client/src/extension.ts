@@ -1,12 +1,16 @@
 'use strict';
 import * as vscode from 'vscode';
 import { TextEditor, TextEditorEdit, ExtensionContext } from 'vscode';
+import * as vscodeTypes from 'vscode-languageserver-types';
 import * as proto from './protocol';
 import { CoqProject, CoqDocument } from './CoqProject';
 import * as snippets from './Snippets';
 import { initializeDecorations } from './Decorations';
 import * as editorAssist from './EditorAssist';
 import * as psm from './prettify-symbols-mode';
+import { CoqLanguageServer } from './CoqLanguageServer';
+import { WorkerItem } from './WorkersView';
+import { AssumptionNode } from './AssumptionsView';
 
 vscode.Range.prototype.toString = function rangeToString(this: vscode.Range) { return `[${this.start.toString()},${this.end.toString()})` }
 vscode.Position.prototype.toString = function positionToString(this: vscode.Position) { return `{${this.line}@${this.character}}` }
@@ -84,6 +88,7 @@ export function activate(context: ExtensionContext) {
   regProjectCmd('interpretToEnd', project.interpretToEnd);
   regProjectCmd('interpretToEndSynchronous', () => project.interpretToEnd({ synchronous: true }));
   regProjectCmd('moveCursorToFocus', project.setCursorToFocus);
+  regProjectCmd('exportTimingReport', project.exportTimingReport);
   regTCmd('query.check', check);
   regTCmd('query.locate', locate);
   regTCmd('query.search', search);
@@ -98,7 +103,22 @@ export function activate(context: ExtensionContext) {
   regTCmd('query.prompt.print', queryPrint);
   regTCmd('proofView.viewStateAt', viewProofStateAt);
   regTCmd('proofView.open', viewCurrentProofState);
+  regTCmd('proofView.compareWith', compareProofStateWith);
+  regProjectCmd('proofView.timeline.previous', project.showPreviousTimelineStep);
+  regProjectCmd('proofView.timeline.next', project.showNextTimelineStep);
   regProjectCmd('ltacProf.getResults', project.ltacProfGetResults);
+  regCmd('makeCases', (uri: string, position: vscodeTypes.Position) => project.get(uri) && project.get(uri).makeCases(position));
+  regCmd('workers.stop', (item: WorkerItem) => project.workers.stop(item));
+  regCmd('workers.reveal', (item: WorkerItem) => project.workers.reveal(item));
+  regCmd('assumptions.refresh', () => project.assumptions.refresh());
+  regTCmd('assumptions.showDocument', (editor: TextEditor) => project.assumptions.showDocument(editor.document.uri.toString()));
+  regTCmd('assumptions.printAtCursor', printAssumptionsAtCursor);
+  regCmd('assumptions.reveal', (node: AssumptionNode) => project.assumptions.reveal(node));
+  regCmd('search.filter', () => project.searchResults.filter());
+  regCmd('search.sort', () => project.searchResults.sort());
+  regCmd('search.insert', (result: proto.SearchResult) => project.searchResults.insert(result));
+  regCmd('search.gotoDefinition', (result: proto.SearchResult) => project.searchResults.gotoDefinition(result));
+  regCmd('search.about', (result: proto.SearchResult) => project.searchResults.about(result));
   regCmd('display.toggle.implicitArguments', () => project.setDisplayOption(proto.DisplayOption.ImplicitArguments, proto.SetDisplayOption.Toggle));
   regCmd('display.toggle.coercions', () => project.setDisplayOption(proto.DisplayOption.Coercions, proto.SetDisplayOption.Toggle));
   regCmd('display.toggle.rawMatchingExpressions', () => project.setDisplayOption(proto.DisplayOption.RawMatchingExpressions, proto.SetDisplayOption.Toggle));
@@ -112,6 +132,10 @@ export function activate(context: ExtensionContext) {
   context.subscriptions.push(editorAssist.reload());
   snippets.setupSnippets(context.subscriptions);
   context.subscriptions.push(psm.load());
+  context.subscriptions.push(vscode.languages.registerSelectionRangeProvider('coq', {
+    provideSelectionRanges: (doc, positions, token) =>
+      CoqLanguageServer.getInstance().getSelectionRanges(doc.uri.toString(), positions, token)
+  }));
 }
 
 
@@ -156,7 +180,7 @@ function queryLocate(editor: TextEditor, edit: TextEditorEdit) {
 
 function querySearch(editor: TextEditor, edit: TextEditorEdit) {
   return withDocAsync(editor, async (doc) =>
-    doc.query("search", await queryStringFromPlaceholder("Search:", editor))
+    doc.search(await queryStringFromPlaceholder("Search:", editor))
   )
 }
 
@@ -192,7 +216,7 @@ function locate(editor: TextEditor, edit: TextEditorEdit) {
 
 function search(editor: TextEditor, edit: TextEditorEdit) {
   return withDocAsync(editor, async (doc) =>
-    doc.query("search", await queryStringFromPosition("Search:", editor))
+    doc.search(await queryStringFromPosition("Search:", editor))
   )
 }
 
@@ -214,12 +238,24 @@ function print(editor: TextEditor, edit: TextEditorEdit) {
   )
 }
 
+async function printAssumptionsAtCursor(editor: TextEditor, edit: TextEditorEdit) {
+  const name = await queryStringFromPosition("Print Assumptions:", editor);
+  if (name)
+    await project.assumptions.addTheorem(editor.document.uri.toString(), name);
+}
+
 function viewProofStateAt(editor: TextEditor, edit: TextEditorEdit) {
   return withDocAsync(editor, async (doc) =>
     doc.viewGoalAt(editor)
   );
 }
 
+function compareProofStateWith(editor: TextEditor, edit: TextEditorEdit) {
+  return withDocAsync(editor, async (doc) =>
+    doc.compareProofStateWith(editor)
+  );
+}
+
 function viewCurrentProofState(editor: TextEditor, edit: TextEditorEdit) {
   return withDocAsync(editor, async (doc) =>
     doc.viewGoalState(editor)
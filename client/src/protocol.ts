@@ -1,5 +1,5 @@
 'use strict';
-import { RequestType, NotificationType } from 'vscode-jsonrpc';
+import { RequestType, RequestType0, NotificationType } from 'vscode-jsonrpc';
 import * as vscode from 'vscode-languageserver-types';
 
 export interface DocumentFilter {
@@ -36,10 +36,18 @@ export interface CoqTopSettings {
   coqtopExe: string;
   /** Name of coqidetop binary. @default `"coqidetop.opt"` */
   coqidetopExe: string;
+  /** Whether to talk to coqidetop (XML protocol) or to sertop (SerAPI). @default `"coqidetop"` */
+  backend?: "coqidetop" | "serapi";
+  /** Name of sertop binary. @default `"sertop"` */
+  sertopExe?: string;
   /** A list of arguments to send to coqtop. @default `[]` */
   args: string[];
   /** When should an instance of coqtop be started for a Coq script */
   startOn: "open-script" | "interaction",
+  /** Directory in which each coqtop session is recorded, to be replayed without Coq (e.g. in a bug report). @default `""` (disabled) */
+  recordSessions?: string,
+  /** A session file (see `recordSessions`) to replay instead of starting coqtop, e.g. to reproduce a bug report. @default `""` (disabled) */
+  replaySession?: string,
 }
 
 export interface AutoFormattingSettings {
@@ -67,6 +75,12 @@ export interface CoqSettings {
   format: AutoFormattingSettings,
   /** When to createa proof view for a script: when the script is opened, on first interaction, or else manually */
   showProofViewOn: "open-script" | "first-interaction" | "manual",
+  /** How to highlight the differences between successive proof states: with the diff of VSCoq, the diff of Coq (`Set Diffs`), or not at all */
+  proofViewDiff?: "vscoq" | "coq" | "none",
+  /** Whether scripts are only checked on request, or continuously up to their end after each edit */
+  checkMode?: "manual" | "continuous",
+  /** Highlights the sentences that took coqtop at least this many milliseconds to process; `0` disables the highlights. @default `1000` */
+  slowSentenceThreshold?: number,
   /** Misc. diagnostic options */
   diagnostics?: {
     /** After each document edit, check for inconsistencies between the STM, sentences, and document. */
@@ -150,11 +164,26 @@ export interface UnfocusedGoalStack {
   // subgoals that appear after the focus
   after: Goal[];
 }
+/** A tactic that coqtop suggests for the current goal */
+export interface TacticHint {
+  label: string;
+  tactic: string;
+}
+
+export interface ProofHints {
+  /** the hints for each hypothesis */
+  hypotheses: TacticHint[][];
+  goal: TacticHint[];
+}
+
 export interface ProofView {
   goals: Goal[];
   backgroundGoals?: UnfocusedGoalStack,
   shelvedGoals: Goal[],
   abandonedGoals: Goal[],
+  /** the pending existential variables and their types */
+  evars?: string[],
+  hints?: ProofHints,
   focus: vscode.Position,
 }
 
@@ -236,6 +265,20 @@ export interface CachedGoalParams extends CoqTopParams {
 export namespace CachedGoalRequest {
   export const type = new RequestType<CachedGoalParams, CommandResult, void, void>('coqtop/cachedGoal')
 }
+export interface CompareCachedGoalsParams extends CachedGoalParams {
+  basePosition: vscode.Position,
+}
+/** @returns the cached goal at `position`, highlighting its differences from the cached goal at `basePosition` */
+export namespace CompareCachedGoalsRequest {
+  export const type = new RequestType<CompareCachedGoalsParams, CommandResult, void, void>('coqtop/compareCachedGoals')
+}
+export interface ProofTimelineParams extends CoqTopParams {
+  position: vscode.Position;
+}
+/** @returns the ranges of the sentences of the proof at `position` whose proof views are cached, in document order */
+export namespace ProofTimelineRequest {
+  export const type = new RequestType<ProofTimelineParams, vscode.Range[], void, void>('coqtop/proofTimeline')
+}
 export namespace FinishComputationsRequest {
   export const type = new RequestType<CoqTopParams, void, void, void>('coqtop/finishComputations')
 }
@@ -273,6 +316,87 @@ export namespace GetSentencePrefixTextRequest {
   export const type = new RequestType<DocumentPositionParams, string, void, void>('coqtop/getSentencePrefixText')
 }
 
+export interface CoqTopSearchParams extends CoqTopParams {
+  /** the arguments of a `Search` command */
+  query: string;
+}
+export interface SearchResult {
+  /** the shortest name that refers to the object */
+  name: string;
+  /** the module path that qualifies `name` */
+  module: string;
+  type: string;
+}
+export namespace SearchRequest {
+  export const type = new RequestType<CoqTopSearchParams, SearchResult[], void, void>('coqtop/search')
+}
+
+export interface DefinitionOfNameParams extends CoqTopParams {
+  module: string;
+  name: string;
+}
+export namespace DefinitionOfNameRequest {
+  export const type = new RequestType<DefinitionOfNameParams, vscode.Location|null, void, void>('coqtop/definitionOfName')
+}
+
+export interface SelectionRangeParams extends CoqTopParams {
+  positions: vscode.Position[];
+}
+/** A range to select when expanding the selection, and the range to select next */
+export interface SelectionRange {
+  range: vscode.Range;
+  parent?: SelectionRange;
+}
+export namespace SelectionRangeRequest {
+  export const type = new RequestType<SelectionRangeParams, SelectionRange[], void, void>('coqtop/selectionRange')
+}
+
+export namespace TimingReportRequest {
+  export const type = new RequestType<CoqTopParams, TimingReport, void, void>('coqtop/timingReport')
+}
+
+/** A sentence that makes the development depend on something that is not proved */
+export interface Assumption {
+  /** `unsafe` marks the other sentences that coqtop reported to add an axiom */
+  kind: "admitted" | "admit" | "axiom" | "unsafe";
+  /** the names of the axioms, or the name of the proof that is admitted or contains `admit` */
+  name: string;
+  range: vscode.Range;
+}
+export interface FileAssumptions {
+  uri: string;
+  assumptions: Assumption[];
+}
+export namespace DocumentAssumptionsRequest {
+  export const type = new RequestType<CoqTopParams, Assumption[], void, void>('coqtop/assumptions')
+}
+/** Scans the scripts of the workspace and the open documents */
+export namespace WorkspaceAssumptionsRequest {
+  export const type = new RequestType0<FileAssumptions[], void, void>('coqtop/workspaceAssumptions')
+}
+export interface PrintAssumptionsParams extends CoqTopParams {
+  name: string;
+}
+/** @returns the output of `Print Assumptions` */
+export namespace PrintAssumptionsRequest {
+  export const type = new RequestType<PrintAssumptionsParams, string, void, void>('coqtop/printAssumptions')
+}
+
+export interface MakeCasesParams extends CoqTopParams {
+  /** the position of a `match term with`, `destruct term.` or `induction term.` */
+  position: vscode.Position;
+}
+export namespace MakeCasesRequest {
+  export const type = new RequestType<MakeCasesParams, vscode.TextEdit[], void, void>('coqtop/makeCases')
+}
+
+export interface StopWorkerParams extends CoqTopParams {
+  worker: string;
+}
+export namespace StopWorkerRequest {
+  export const type = new RequestType<StopWorkerParams, void, void, void>('coqtop/stopWorker')
+}
+
 export enum HighlightType {
   StateError=0, Parsing=1, Processing=2, Incomplete=3, Processed=4, Axiom=5
 }
@@ -286,8 +410,46 @@ export interface NotificationParams {
   uri: string;
 }
 
+/** The kinds of names that coqtop has resolved in processed sentences */
+export enum SemanticTokenType {
+  Constant=0, Inductive=1, Constructor=2, Variable=3, Notation=4
+}
+
+/** The time that coqtop spent processing a sentence */
+export interface SentenceTiming {
+  range: vscode.Range;
+  /** the command, without comments or excess whitespace */
+  command: string;
+  /** milliseconds */
+  time: number;
+}
+
+/** The time that coqtop spent on a proof, from its statement through `Qed` */
+export interface ProofTiming {
+  /** the name of the lemma, or the command that starts the proof if it has no name (e.g. `Goal`) */
+  name: string;
+  range: vscode.Range;
+  /** milliseconds */
+  time: number;
+  /** the number of sentences of the proof, including its statement */
+  sentences: number;
+  /** some sentences were checked by a worker: `time` does not include them */
+  delegated: boolean;
+}
+
+export interface TimingReport {
+  /** the processed sentences that coqtop did not delegate to a worker, most expensive first */
+  sentences: SentenceTiming[];
+  /** the processed proofs, most expensive first */
+  proofs: ProofTiming[];
+}
+
 export interface Highlights {
   ranges: [vscode.Range[],vscode.Range[],vscode.Range[],vscode.Range[],vscode.Range[],vscode.Range[]];
+  /** indexed by SemanticTokenType */
+  semanticTokens: [vscode.Range[],vscode.Range[],vscode.Range[],vscode.Range[],vscode.Range[]];
+  /** the sentences that took at least 1, 4, and 16 times `coq.slowSentenceThreshold` to process */
+  slowSentences: [SentenceTiming[],SentenceTiming[],SentenceTiming[]];
 }
 
 export type NotifyHighlightParams = NotificationParams & Highlights;
@@ -348,3 +510,20 @@ export interface NotifyLtacProfResultsParams extends NotificationParams {
 export namespace CoqLtacProfResultsNotification {
   export const type = new NotificationType<NotifyLtacProfResultsParams,void>('coqtop/ltacProfResults')
 }
+
+export enum WorkerState { Idle, Processing, Dead, Proof }
+/** A worker that coqtop spawned to check proofs asynchronously */
+export interface WorkerStatus {
+  id: string;
+  state: WorkerState;
+  /** the proof that the worker is checking */
+  ident?: string;
+  /** the last sentence that the worker was assigned */
+  range?: vscode.Range;
+}
+export interface NotifyWorkersParams extends NotificationParams {
+  workers: WorkerStatus[];
+}
+export namespace CoqWorkersNotification {
+  export const type = new NotificationType<NotifyWorkersParams,void>('coqtop/workers')
+}
@@ -1,5 +1,5 @@
 import * as $ from 'jquery';
-import { ProofView, UnfocusedGoalStack, HypothesisDifference, TextDifference, AnnotatedText, ScopedText, Hypothesis, Goal, CommandResult } from './protocol';
+import { ProofView, UnfocusedGoalStack, HypothesisDifference, TextDifference, AnnotatedText, ScopedText, Hypothesis, Goal, CommandResult, ProofHints, TacticHint } from './protocol';
 import { makeBreakingText } from './ui-util';
 
 function countUnfocusedGoals(u: UnfocusedGoalStack|undefined) : number {
@@ -133,6 +133,29 @@ function createFocusedGoals(goals: Goal[]) : JQuery {
   //   createGoal(g, idx, goals.length)));
 }
 
+function createEvars(evars: string[]) : JQuery {
+  return $('<ul>')
+    .addClass('evarsList')
+    .append(evars.map((e) => $('<li>').addClass('evar').append(makeBreakingText(e))));
+}
+
+function createHints(hints: ProofHints, onInsertTactic: (tactic: string) => void) : JQuery {
+  const createHintList = (list: TacticHint[]) => $('<ul>')
+    .addClass('hintsList')
+    .append(list.map((h) => $('<li>')
+      .addClass('hint')
+      .attr('title', h.tactic)
+      .text(h.label)
+      .on('click', () => onInsertTactic(h.tactic))));
+  return $('<details>')
+    .addClass('hints')
+    .append(
+      [ $('<summary>').text('Hints')
+      , createHintList(hints.goal)
+      , ...hints.hypotheses.filter(l => l.length > 0).map(createHintList)
+      ]);
+}
+
 export class StateModel {
 
   // private static hypothesesNodeClass = '.hypotheses';
@@ -142,7 +165,8 @@ export class StateModel {
   // private coqState : ProofView;
 
 
-  constructor() {
+  /** @param onInsertTactic -- called when a hint is clicked */
+  constructor(private onInsertTactic: (tactic: string) => void) {
   }
 
 
@@ -194,6 +218,10 @@ export class StateModel {
             this.setMessage("There are unfocused goals.");
           }
         }
+        if(state.evars && state.evars.length > 0)
+          $('#states').append(createEvars(state.evars));
+        if(state.hints && (state.hints.goal.length > 0 || state.hints.hypotheses.some(l => l.length > 0)))
+          $('#states').append(createHints(state.hints, this.onInsertTactic));
 
       if(hasSubstitutions)
         $('#togglePrettifySymbols').removeClass("hidden")
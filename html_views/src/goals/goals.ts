@@ -1,8 +1,8 @@
 import * as $ from 'jquery';
 import * as stm from './StateModel'
-import { ControllerEvent, ResizeEvent, SettingsState, ProofViewProtocol } from './protocol'
+import { ControllerEvent, ResizeEvent, InsertTacticEvent, TimelineStepEvent, SettingsState, ProofViewProtocol } from './protocol'
 
-const stateModel = new stm.StateModel();
+const stateModel = new stm.StateModel(insertTactic);
 
 
 var throttleTimeout : number|null = null;
@@ -50,6 +50,37 @@ function onWindowGetFocus(event: FocusEvent) {
   }
 }
 
+function insertTactic(tactic: string) {
+  if(vscode)
+    vscode.postMessage(JSON.stringify(<ControllerEvent>{
+      eventName: 'insertTactic',
+      params: <InsertTacticEvent>{tactic: tactic}
+    }));
+}
+
+/** Asks for the proof view of another step of the current proof */
+function stepTimeline(index: number) {
+  const slider = $('#timelineSlider')[0] as HTMLInputElement;
+  if(index < 0 || index > parseInt(slider.max))
+    return;
+  updateTimeline(parseInt(slider.max) + 1, index);
+  if(vscode)
+    vscode.postMessage(JSON.stringify(<ControllerEvent>{
+      eventName: 'timelineStep',
+      params: <TimelineStepEvent>{index: index}
+    }));
+}
+
+function updateTimeline(length: number, index: number) {
+  $('#timeline').toggleClass("hidden", length < 2);
+  const slider = $('#timelineSlider')[0] as HTMLInputElement;
+  slider.max = `${Math.max(length - 1, 0)}`;
+  slider.value = `${index}`;
+  $('#timelinePrevious').prop("disabled", index <= 0);
+  $('#timelineNext').prop("disabled", index >= length - 1);
+  $('#timelineLabel').text(`step ${index + 1} of ${length}`);
+}
+
 function setPrettifySymbolsMode(enabled: boolean) {
   $(document.body)
     .toggleClass("prettifySymbolsMode", enabled);
@@ -63,6 +94,11 @@ function goalsLoad() {
   window.onresize = throttleEventHandler(event => computePrintingWidth);
   window.addEventListener("focus", onWindowGetFocus, true);
 
+  const slider = $('#timelineSlider')[0] as HTMLInputElement;
+  slider.addEventListener("input", () => stepTimeline(parseInt(slider.value)));
+  $('#timelinePrevious').on("click", () => stepTimeline(parseInt(slider.value) - 1));
+  $('#timelineNext').on("click", () => stepTimeline(parseInt(slider.value) + 1));
+
   window.addEventListener('message', event => {
     const message = event.data;
     handleMessage(message);
@@ -71,7 +107,7 @@ function goalsLoad() {
   computePrintingWidth();
 
   vscode.postMessage(JSON.stringify(<ControllerEvent>{
-    eventName: 'getGoal',
+    eventName: 'getInitialGoal',
     params: {}
   }));
 }
@@ -86,6 +122,8 @@ function handleMessage(message: ProofViewProtocol) : void {
   switch(message.command) {
     case 'goal-update':
       return stateModel.updateState(message.goal);
+    case 'timeline-update':
+      return updateTimeline(message.length, message.index);
     case 'settings-update':
       updateSettings(message);
   }
@@ -1,16 +1,29 @@
 export interface ControllerEvent {
   eventName: string;
-  params: ResizeEvent // | | | | | ;
+  params: ResizeEvent | InsertTacticEvent | TimelineStepEvent // | | | ;
 }
 export interface ResizeEvent {
   columns: number;
 }
+export interface InsertTacticEvent {
+  tactic: string;
+}
+export interface TimelineStepEvent {
+  index: number;
+}
 
 interface GoalUpdate {
   command: 'goal-update',
   goal: CommandResult
 }
 
+interface TimelineUpdate {
+  command: 'timeline-update',
+  /** the number of cached steps of the current proof */
+  length: number,
+  index: number,
+}
+
 interface SettingsUpdate extends SettingsState {
   command: 'settings-update'
 }
@@ -22,7 +35,7 @@ export interface SettingsState {
   prettifySymbolsMode?: boolean,
 }
 
-export type ProofViewProtocol = GoalUpdate | SettingsUpdate;
+export type ProofViewProtocol = GoalUpdate | TimelineUpdate | SettingsUpdate;
 
 export type TextDifference = "added"|"removed";
 
@@ -72,11 +85,23 @@ interface FailValue {
   location?: Location;
 }
 
+export interface TacticHint {
+  label: string;
+  tactic: string;
+}
+
+export interface ProofHints {
+  hypotheses: TacticHint[][];
+  goal: TacticHint[];
+}
+
 export interface ProofView {
   goals: Goal[];
   backgroundGoals: UnfocusedGoalStack,
   shelvedGoals: Goal[],
   abandonedGoals: Goal[],
+  evars?: string[],
+  hints?: ProofHints,
 }
 
 interface CommandInterrupted {
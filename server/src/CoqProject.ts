@@ -1,13 +1,19 @@
 import {CoqDocument, DocumentCallbacks, TextDocumentItem} from './document';
-import {Settings, DocumentSelector} from './protocol';
+import {Settings, DocumentSelector, FileAssumptions} from './protocol';
 import * as vscode from 'vscode-languageserver';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as url from 'url';
 import {PrettifySymbolsMode} from './util/PrettifySymbols';
 import * as nodeAsync from './util/nodejs-async';
 import {CoqTop} from './coqtop/CoqTop';
 import {CoqTop as CoqTop8} from './coqtop/CoqTop8';
+import {SerTop} from './coqtop/SerTop';
+import {ReplayCoqTop} from './coqtop/ReplayCoqTop';
 import stringArgv from 'string-argv';
+import {GlobIndex, LoadPath} from './GlobIndex';
+import {findAssumptionSentences} from './parsing/assumptions-parsing';
+import * as textUtil from './util/text-util';
 
 
 const coqProjectFileName = '_CoqProject';
@@ -21,13 +27,14 @@ export class CoqProject {
   private loadingCoqProjectInProcess = false;
   private ready = {event: Promise.resolve<{}>({}), signal: ()=>{} };
   private psm = new PrettifySymbolsMode([]);
+  private globIndex : GlobIndex|null = null;
 
   // we independently track the settings contributed by the vscode project settings and _CoqProject
   // so they can be modified seperately
   private settingsCoqTopArgs: string[] = [];
   private coqProjectArgs: string[] = [];
   
-  constructor(workspaceRoot: string, private readonly connection: vscode.IConnection) {
+  constructor(workspaceRoot: string, private readonly connection: Pick<vscode.IConnection, "console">) {
     if(workspaceRoot)
       connection.console.log("Loaded project at " + workspaceRoot)
     else
@@ -43,6 +50,57 @@ export class CoqProject {
     return this.workspaceRoot;
   }
   
+  private static async findScripts(dir: string, scripts: string[]) : Promise<void> {
+    let entries : fs.Dirent[];
+    try {
+      entries = await nodeAsync.fs.readdir(dir);
+    } catch(err) {
+      return;
+    }
+    for(let entry of entries) {
+      if(entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules')
+        await CoqProject.findScripts(path.join(dir, entry.name), scripts);
+      else if(entry.isFile() && entry.name.endsWith('.v'))
+        scripts.push(path.join(dir, entry.name));
+    }
+  }
+
+  /**
+   * Lists the unproved sentences of every script of the workspace; the open documents are scanned as edited,
+   * the other scripts as saved on disk
+   */
+  public async getWorkspaceAssumptions() : Promise<FileAssumptions[]> {
+    const results : FileAssumptions[] = [];
+    // The paths of the open scripts; unsaved documents (e.g. `untitled:`) have none
+    const openScripts = new Set<string>();
+    this.coqInstances.forEach((doc, uri) => {
+      try {
+        results.push({uri: uri, assumptions: doc.getAssumptions()});
+        if(uri.startsWith("file:"))
+          openScripts.add(path.normalize(url.fileURLToPath(uri)));
+      } catch(err) {
+        this.console.warn(`Could not list the assumptions of ${uri}: ${err}`);
+      }
+    });
+    const scripts : string[] = [];
+    if(this.workspaceRoot)
+      await CoqProject.findScripts(this.workspaceRoot, scripts);
+    for(let script of scripts) {
+      if(openScripts.has(path.normalize(script)))
+        continue;
+      try {
+        const uri = url.pathToFileURL(script).toString();
+        const text = await nodeAsync.fs.readFile(script, 'utf8');
+        const assumptions = findAssumptionSentences(text).map(a =>
+          ({kind: a.kind, name: a.name, range: vscode.Range.create(textUtil.positionAt(text, a.start), textUtil.positionAt(text, a.end))}));
+        results.push({uri: uri, assumptions: assumptions});
+      } catch(err) {
+        continue;
+      }
+    }
+    return results.filter(r => r.assumptions.length > 0);
+  }
+
   public lookup(uri: string) : CoqDocument {
     var doc = this.coqInstances.get(uri);
     if(!doc)
@@ -51,6 +109,10 @@ export class CoqProject {
   }
   
   public createCoqTopInstance(scriptFile: string) : CoqTop {
+    if(this.settings.coqtop.replaySession)
+      return new ReplayCoqTop(path.resolve(this.getWorkspaceRoot() || "", this.settings.coqtop.replaySession), this.console);
+    if(this.settings.coqtop.backend === "serapi")
+      return new SerTop(this.settings.coqtop, scriptFile, this.getWorkspaceRoot(), this.console);
     return new CoqTop8(this.settings.coqtop, scriptFile, this.getWorkspaceRoot(), this.console);
   }
 
@@ -67,6 +129,28 @@ export class CoqProject {
   public getPrettifySymbols() : PrettifySymbolsMode {
     return this.psm;
   }
+
+  /** @returns the `-R` and `-Q` mappings of the coqtop arguments, relative to the workspace */
+  public getLoadPaths() : LoadPath[] {
+    const args = this.settings.coqtop.args;
+    const loadPaths : LoadPath[] = [];
+    for(let idx = 0; idx+2 < args.length; ++idx) {
+      if(args[idx] === '-R' || args[idx] === '-Q') {
+        loadPaths.push({physical: path.resolve(this.workspaceRoot || '', args[idx+1]), logical: args[idx+2]});
+        idx+= 2;
+      }
+    }
+    return loadPaths;
+  }
+
+  /** The index is rebuilt after the load paths change */
+  public getGlobIndex() : GlobIndex {
+    if(!this.globIndex) {
+      const coqtop = path.join(this.settings.coqtop.binPath || '', this.settings.coqtop.coqtopExe || 'coqtop');
+      this.globIndex = new GlobIndex(this.getLoadPaths(), coqtop);
+    }
+    return this.globIndex;
+  }
   
   private matchesCoq(selector: DocumentSelector) {
     if(typeof selector === 'string')
@@ -81,6 +165,7 @@ export class CoqProject {
     this.notReady();
     this.settingsCoqTopArgs = newSettings.coqtop.args;
     this.currentSettings = newSettings;
+    this.globIndex = null;
 
     
     if(newSettings.coq.loadCoqProject) {
@@ -171,6 +256,7 @@ export class CoqProject {
       const projectFile = await nodeAsync.fs.readFile(this.coqProjectFile(), 'utf8');
       this.coqProjectArgs = CoqProject.parseCoqProject(projectFile);
       this.currentSettings.coqtop.args = [...this.coqProjectArgs, ...this.settingsCoqTopArgs];
+      this.globIndex = null;
     } catch(err) {
     } finally {
       this.loadingCoqProjectInProcess = false;      
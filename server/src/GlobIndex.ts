@@ -0,0 +1,230 @@
+import * as vscode from 'vscode-languageserver';
+import * as path from 'path';
+import * as nodeAsync from './util/nodejs-async';
+import * as textUtil from './util/text-util';
+import {parseGlob, GlobFile} from './parsing/glob-parsing';
+import {QualId, qualIdEqual} from './sentence-model/Scopes';
+
+/** A `-R` or `-Q` mapping from a directory to a logical library prefix */
+export interface LoadPath {
+  physical: string,
+  logical: string,
+}
+
+/** Identifies an object across libraries */
+interface GlobalName {
+  library: string,
+  id: QualId,
+}
+
+/** A source file whose byte offsets (as used by *.glob files) can be converted to positions */
+class SourceText {
+  private bytes: Buffer;
+  public constructor(private text: string) {
+    this.bytes = Buffer.from(text, 'utf8');
+  }
+
+  public positionAt(byteOffset: number) : vscode.Position {
+    return textUtil.positionAt(this.text, this.bytes.slice(0, byteOffset).toString('utf8').length);
+  }
+
+  /** @param stop -- the byte offset of the last character of the range */
+  public rangeOf(start: number, stop: number) : vscode.Range {
+    return vscode.Range.create(this.positionAt(start), this.positionAt(stop+1));
+  }
+}
+
+function sourceFileOf(globFile: string) {
+  return globFile.replace(/\.glob$/, '.v');
+}
+
+/**
+ * @returns whether `From dirPath Require module` may refer to `library`:
+ * `module` may be partially qualified, in which case it must be a suffix of the library's name.
+ */
+export function libraryMatchesRequire(library: string, module: string, dirPath: string|null) : boolean {
+  const lib = library.split('.');
+  const mod = module.split('.');
+  const dir = dirPath ? dirPath.split('.') : [];
+  if(lib.length < dir.length + mod.length)
+    return false;
+  return qualIdEqual(lib.slice(0, dir.length), dir) && qualIdEqual(lib.slice(lib.length - mod.length), mod);
+}
+
+/**
+ * Indexes the *.glob files that coqc writes next to each *.vo file, so that definitions and
+ * references can be found across the workspace and the standard library without running coqtop.
+ * The positions are only accurate as long as the sources are not modified after they were compiled.
+ */
+export class GlobIndex {
+  /** maps the logical name of each library to its *.glob file */
+  private libraries : Promise<Map<string,string>>|null = null;
+  /** the libraries of the workspace, i.e. of the `-R`/`-Q` mappings */
+  private workspaceLibraries = new Set<string>();
+  private globs = new Map<string,{mtime: number, glob: GlobFile}>();
+
+  public constructor(
+    private loadPaths: LoadPath[],
+    /** coqtop is asked where the standard library is installed */
+    private coqtopBin: string,
+  ) { }
+
+  private async getStandardLoadPaths() : Promise<LoadPath[]> {
+    try {
+      const coqlib = (await nodeAsync.child_process.execFile(this.coqtopBin, ['-where'])).trim();
+      return [
+        {physical: path.join(coqlib, 'theories'), logical: 'Coq'},
+        {physical: path.join(coqlib, 'user-contrib'), logical: ''},
+      ];
+    } catch(err) {
+      return [];
+    }
+  }
+
+  private async scanLoadPath(dir: string, logical: QualId, libraries: Map<string,string>, isWorkspace: boolean) : Promise<void> {
+    let entries : {name: string, isDirectory(): boolean}[];
+    try {
+      entries = await nodeAsync.fs.readdir(dir);
+    } catch(err) {
+      return;
+    }
+    for(let entry of entries) {
+      if(entry.isDirectory())
+        await this.scanLoadPath(path.join(dir, entry.name), [...logical, entry.name], libraries, isWorkspace);
+      else if(entry.name.endsWith('.glob')) {
+        const library = [...logical, path.basename(entry.name, '.glob')].join('.');
+        // the workspace takes precedence over installed libraries
+        if(libraries.has(library))
+          continue;
+        libraries.set(library, path.join(dir, entry.name));
+        if(isWorkspace)
+          this.workspaceLibraries.add(library);
+      }
+    }
+  }
+
+  private getLibraries() : Promise<Map<string,string>> {
+    if(!this.libraries) {
+      this.libraries = (async () => {
+        const libraries = new Map<string,string>();
+        for(let lp of this.loadPaths)
+          await this.scanLoadPath(lp.physical, lp.logical ? lp.logical.split('.') : [], libraries, true);
+        for(let lp of await this.getStandardLoadPaths())
+          await this.scanLoadPath(lp.physical, lp.logical ? lp.logical.split('.') : [], libraries, false);
+        return libraries;
+      })();
+    }
+    return this.libraries;
+  }
+
+  /** Loads the *.glob file, reusing the cached contents unless it has been rewritten */
+  private async loadGlob(globFile: string) : Promise<GlobFile|null> {
+    try {
+      const mtime = (await nodeAsync.fs.stat(globFile)).mtimeMs;
+      const cached = this.globs.get(globFile);
+      if(cached && cached.mtime === mtime)
+        return cached.glob;
+      const glob = parseGlob(await nodeAsync.fs.readFile(globFile, 'utf8'));
+      this.globs.set(globFile, {mtime: mtime, glob: glob});
+      return glob;
+    } catch(err) {
+      return null;
+    }
+  }
+
+  private static async loadSource(sourceFile: string) : Promise<SourceText|null> {
+    try {
+      return new SourceText(await nodeAsync.fs.readFile(sourceFile, 'utf8'));
+    } catch(err) {
+      return null;
+    }
+  }
+
+  /** @returns the object that is declared or referred to at `byteOffset` in `sourceFile` */
+  private async getNameAt(sourceFile: string, byteOffset: number) : Promise<GlobalName|null> {
+    const glob = await this.loadGlob(sourceFile.replace(/\.v$/, '.glob'));
+    if(!glob)
+      return null;
+    const contains = (x: {start: number, stop: number}) => x.start <= byteOffset && byteOffset <= x.stop + 1;
+    const ref = glob.references.find(contains);
+    if(ref)
+      return {library: ref.library, id: [...ref.path, ...ref.name.split('.')]};
+    const def = glob.definitions.find(d => d.kind !== 'binder' && contains(d));
+    if(def)
+      return {library: glob.library, id: [...def.path, ...def.name.split('.')]};
+    return null;
+  }
+
+  private async locateDefinition(name: GlobalName) : Promise<vscode.Location|null> {
+    const globFile = (await this.getLibraries()).get(name.library);
+    const glob = globFile ? await this.loadGlob(globFile) : null;
+    if(!glob)
+      return null;
+    const defs = glob.definitions.filter(d => d.kind !== 'binder');
+    const def = defs.find(d => qualIdEqual([...d.path, ...d.name.split('.')], name.id))
+      || defs.find(d => d.name === name.id[name.id.length-1]);
+    const source = def ? await GlobIndex.loadSource(sourceFileOf(globFile)) : null;
+    if(!source)
+      return null;
+    return vscode.Location.create("file://" + sourceFileOf(globFile), source.rangeOf(def.start, def.stop));
+  }
+
+  /**
+   * @returns the source file of the library that `From dirPath Require module` loads,
+   * preferring an exact name, then the libraries of the workspace
+   */
+  public async findLibrarySource(module: string, dirPath: string|null) : Promise<string|null> {
+    const libraries = await this.getLibraries();
+    const fullName = dirPath ? dirPath + '.' + module : module;
+    const candidates = Array.from(libraries.keys()).filter(library => libraryMatchesRequire(library, module, dirPath));
+    const library = libraries.has(fullName) ? fullName
+      : candidates.find(c => this.workspaceLibraries.has(c)) || candidates[0];
+    if(!library)
+      return null;
+    const source = sourceFileOf(libraries.get(library));
+    return (await nodeAsync.fs.exists(source)) ? source : null;
+  }
+
+  /** @returns the declaration of the object referred to at `byteOffset` in `sourceFile` */
+  public async findDefinition(sourceFile: string, byteOffset: number) : Promise<vscode.Location|null> {
+    const name = await this.getNameAt(sourceFile, byteOffset);
+    return name ? await this.locateDefinition(name) : null;
+  }
+
+  /** @returns the declaration of the object with the fully qualified name `qualid` */
+  public async findQualifiedDefinition(qualid: QualId) : Promise<vscode.Location|null> {
+    const libraries = await this.getLibraries();
+    // the library is the longest prefix of the name that is indexed
+    for(let len = qualid.length - 1; len > 0; --len) {
+      const library = qualid.slice(0, len).join('.');
+      if(libraries.has(library))
+        return await this.locateDefinition({library: library, id: qualid.slice(len)});
+    }
+    return null;
+  }
+
+  /** @returns the references, within the workspace, to the object declared or referred to at `byteOffset` in `sourceFile` */
+  public async findReferences(sourceFile: string, byteOffset: number, includeDeclaration: boolean) : Promise<vscode.Location[]> {
+    const name = await this.getNameAt(sourceFile, byteOffset);
+    if(!name)
+      return [];
+    const results : vscode.Location[] = [];
+    if(includeDeclaration) {
+      const def = await this.locateDefinition(name);
+      if(def)
+        results.push(def);
+    }
+    const libraries = await this.getLibraries();
+    for(let library of this.workspaceLibraries) {
+      const globFile = libraries.get(library);
+      const glob = await this.loadGlob(globFile);
+      const refs = glob ? glob.references.filter(r =>
+        r.library === name.library && qualIdEqual([...r.path, ...r.name.split('.')], name.id)) : [];
+      const source = refs.length > 0 ? await GlobIndex.loadSource(sourceFileOf(globFile)) : null;
+      if(!source)
+        continue;
+      results.push(...refs.map(r => vscode.Location.create("file://" + sourceFileOf(globFile), source.rangeOf(r.start, r.stop))));
+    }
+    return results;
+  }
+}
@@ -144,12 +144,17 @@ export abstract class IdeSlave {
   public abstract coqInit() : Promise<InitResult>;
   public abstract coqQuit() : Promise<void>;
   public abstract coqGoal() : Promise<GoalResult>;
+  public abstract coqEvars() : Promise<string[]>;
+  public abstract coqHints() : Promise<coqProto.HintsReturn|null>;
   public abstract getStatus(force: boolean) : Promise<coqProto.CoqStatus>;
   public abstract coqAddCommand(command: string, editId: number, stateId: number, verbose?: boolean) : Promise<AddResult>;
   public abstract coqEditAt(stateId: number) : Promise<EditAtResult>;
   public abstract coqLtacProfilingResults(stateId?: number, routeId?: number) : Promise<void>;
   public abstract coqResizeWindow(columns: number) : Promise<void>;
   public abstract coqQuery(query: string, stateId?: number, routeId?: number) : Promise<void>;
+  public abstract coqSearch(constraints: coqProto.SearchConstraint[]) : Promise<coqProto.CoqObject<string>[]>;
+  public abstract coqMkCases(inductive: string) : Promise<string[][]>;
+  public abstract coqStopWorker(worker: string) : Promise<void>;
   public abstract coqGetOptions(options: CoqOptions) : Promise<void>;
   public abstract coqSetOptions(options: CoqOptions) : Promise<void>;
 }
@@ -172,12 +177,17 @@ export abstract class CoqTop extends IdeSlave {
   public abstract coqInit() : Promise<InitResult>;
   public abstract coqQuit() : Promise<void>;
   public abstract coqGoal() : Promise<GoalResult>;
+  public abstract coqEvars() : Promise<string[]>;
+  public abstract coqHints() : Promise<coqProto.HintsReturn|null>;
   public abstract getStatus(force: boolean) : Promise<coqProto.CoqStatus>;
   public abstract coqAddCommand(command: string, editId: number, stateId: number, verbose?: boolean) : Promise<AddResult>;
   public abstract coqEditAt(stateId: number) : Promise<EditAtResult>;
   public abstract coqLtacProfilingResults(stateId?: number, routeId?: number) : Promise<void>;
   public abstract coqResizeWindow(columns: number) : Promise<void>;
   public abstract coqQuery(query: string, stateId?: number, routeId?: number) : Promise<void>;
+  public abstract coqSearch(constraints: coqProto.SearchConstraint[]) : Promise<coqProto.CoqObject<string>[]>;
+  public abstract coqMkCases(inductive: string) : Promise<string[][]>;
+  public abstract coqStopWorker(worker: string) : Promise<void>;
   public abstract coqGetOptions(options: CoqOptions) : Promise<void>;
   public abstract coqSetOptions(options: CoqOptions) : Promise<void>;
 }
@@ -208,6 +218,7 @@ export interface CoqOptions {
   defaultProofUsing?: any,
   defaultTimeout?: number,
   dependentPropositionsElimination?: boolean,
+  diffs?: string; // enum {on, off, removed}; since 8.9
   discriminateIntroduction?: boolean,
   dumpBytecode?: boolean,
   eliminationSchemes?: boolean,
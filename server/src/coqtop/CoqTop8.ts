@@ -30,7 +30,7 @@ export class CoqTop extends IdeSlave8 implements coqtop.CoqTop {
   private sockets : net.Socket[] = [];
 
   constructor(settings : CoqTopSettings, scriptFile: string, projectRoot: string, console: vscode.RemoteConsole) {
-    super(console);
+    super(console, CoqTop.sessionFile(settings, scriptFile));
     this.settings = settings;
     this.scriptFile = scriptFile;
     this.projectRoot = projectRoot;
@@ -52,6 +52,13 @@ export class CoqTop extends IdeSlave8 implements coqtop.CoqTop {
 
   }
 
+  /** Where to record the session of `scriptFile`, if `settings.recordSessions` is set */
+  private static sessionFile(settings: CoqTopSettings, scriptFile: string) : string|undefined {
+    if(!settings.recordSessions)
+      return undefined;
+    return path.join(settings.recordSessions, `${path.basename(scriptFile)}-${Date.now()}.coqsession`);
+  }
+
   public /* override */ dispose() {
     if(this.isRunning() && this.callbacks.onClosed) {
       this.callbacks.onClosed(false);
@@ -7,6 +7,8 @@ import * as vscode from 'vscode-languageserver';
 import * as coqProto from './coq-proto';
 import * as xmlTypes from './xml-protocol/CoqXmlProtocolTypes';
 import {createDeserializer} from './xml-protocol/deserialize';
+import {Serialize, createSerializer} from './xml-protocol/serialize';
+import {SessionRecorder} from './SessionRecording';
 
 import * as coqtop from './CoqTop';
 import {Interrupted, CallFailure, CommunicationError} from './CoqTop';
@@ -14,8 +16,11 @@ import {InitResult, AddResult, EditAtResult, ProofView} from './CoqTop';
 import {ProofModeResult, GoalResult} from './CoqTop';
 
 import {timeout} from '../util/Timer';
+import * as parser from '../parsing/coq-parser';
 
 const QUIT_MESSAGE_TIMEOUT_MS = 1000;
+/** Coqidetop would stop at each tactic and wait for the commands of an Ltac debugger, which we do not provide */
+const SET_LTAC_DEBUG = /^(?:#\[[^\]]*\]\s*)?(?:(?:Local|Global|Export)\s+)?Set\s+Ltac\s+Debug\s*\.$/;
 
 export enum IdeSlaveState {
   Disconnected,
@@ -38,6 +43,8 @@ export class IdeSlave extends coqtop.IdeSlave {
   private mainChannelW : NodeJS.WritableStream;
   private controlChannelW : NodeJS.WritableStream;
   private parser : coqXml.XmlStream|null = null;
+  private serializer = new Serialize();
+  private recorder : SessionRecorder|null = null;
   private coqResultValueListener : {onValue: (value:coqProto.ValueReturn|coqProto.FailValue) => void, onError: (reason: any)=>void} | null = null;
 
 
@@ -46,7 +53,8 @@ export class IdeSlave extends coqtop.IdeSlave {
   protected console: vscode.RemoteConsole;
   protected useInterruptMessage = false;
 
-  constructor(console: vscode.RemoteConsole) {
+  /** @param recordFile if set, the calls and responses of the main channel are recorded into this session file */
+  constructor(console: vscode.RemoteConsole, private readonly recordFile?: string) {
     super();
     this.console = console;
   }
@@ -57,6 +65,11 @@ export class IdeSlave extends coqtop.IdeSlave {
     this.controlChannelW = controlW;
     this.state = IdeSlaveState.Connected;
   
+    this.serializer = createSerializer(version);
+    if(this.recordFile) {
+      this.recorder = new SessionRecorder(this.recordFile, version);
+      this.console.log(`Recording the coqtop session into ${this.recordFile}`);
+    }
     const deserializer = createDeserializer(version);
     this.parser = new coqXml.XmlStream(this.mainChannelR, deserializer, {
       onFeedback: (feedback: coqProto.StateFeedback) => this.doOnFeedback(feedback),
@@ -72,6 +85,7 @@ export class IdeSlave extends coqtop.IdeSlave {
       if(this.coqResultValueListener)
         this.coqResultValueListener.onValue(value);
     });
+    this.parser.on('response: ltac_debug', (msg: coqProto.Message) => this.doOnMessage(msg, 0, undefined));
 
     // this.mainChannelR.on('data', (data) => this.onMainChannelR(data));
     // this.controlChannelR.on('data', (data) => this.onControlChannelR(data));
@@ -100,6 +114,8 @@ export class IdeSlave extends coqtop.IdeSlave {
   }
 
   private writeMain(message: string) {
+    if(this.recorder)
+      this.recorder.call(message);
     this.mainChannelW.write(message, 'utf8');
   }
 
@@ -107,6 +123,9 @@ export class IdeSlave extends coqtop.IdeSlave {
   public dispose() {
     this.callbacks = {};
     this.state = IdeSlaveState.Shutdown;
+    if (this.recorder)
+      this.recorder.dispose();
+    this.recorder = null;
     // if (this.mainChannelR)
     //   this.mainChannelR.end();
     if (this.mainChannelW)
@@ -141,6 +160,8 @@ export class IdeSlave extends coqtop.IdeSlave {
   }
   
   private onMainChannelR(data: string) {
+    if(this.recorder)
+      this.recorder.response(data);
   }
 
   private onControlChannelR(data: string) {
@@ -293,6 +314,30 @@ export class IdeSlave extends coqtop.IdeSlave {
     // }
  }
 
+  /** @returns the pending existential variables of the current proof, with their types */
+  public async coqEvars() : Promise<string[]> {
+    await this.checkState();
+
+    const coqResult = this.coqGetResultOnce('Evars');
+    this.console.log('--------------------------------');
+    this.console.log('Call Evars()');
+    this.writeMain('<call val="Evars"><unit/></call>');
+
+    return coqProto.GetValue('Evars', await coqResult);
+  }
+
+  /** @returns the tactics that coqtop suggests for the hypotheses and the goal of the current proof */
+  public async coqHints() : Promise<coqProto.HintsReturn|null> {
+    await this.checkState();
+
+    const coqResult = this.coqGetResultOnce('Hints');
+    this.console.log('--------------------------------');
+    this.console.log('Call Hints()');
+    this.writeMain('<call val="Hints"><unit/></call>');
+
+    return coqProto.GetValue('Hints', await coqResult);
+  }
+
   public async getStatus(force: boolean) : Promise<coqProto.CoqStatus> {
     await this.checkState();
 
@@ -307,13 +352,15 @@ export class IdeSlave extends coqtop.IdeSlave {
   
   public async coqAddCommand(command: string, editId: number, stateId: number, verbose?: boolean) : Promise<AddResult> {
     await this.checkState();
+    if(SET_LTAC_DEBUG.test(parser.normalizeText(command).trim()))
+      throw new CallFailure("The Ltac debugger is not supported; use `Set Ltac Batch Debug.` to trace tactics instead");
 
     const coqResult = this.coqGetResultOnce('Add');
     // const verboseStr = verbose===true ? "true" : "false";
     const verboseStr = verbose === false ? "false" : "true";
     this.console.log('--------------------------------');
     this.console.log(`Call Add("${command.trim().substr(0, 20) + (command.trim().length > 20 ? "..." : "")}", editId: ${editId}, stateId: ${stateId}, verbose: ${verboseStr})`);
-    this.writeMain(`<call val="Add"><pair><pair><string>${coqXml.escapeXml(command)}</string><int>${editId}</int></pair><pair><state_id val="${stateId}"/><bool val="${verboseStr}"/></pair></pair></call>`);
+    this.writeMain(this.serializer.add(command, editId, stateId, verboseStr === "true"));
 
     const value = coqProto.GetValue('Add', await coqResult);
     let result : AddResult = {
@@ -360,7 +407,7 @@ export class IdeSlave extends coqtop.IdeSlave {
     const coqResult = this.coqGetResultOnce('Query');
     this.console.log('--------------------------------');
     this.console.log(`Call Query(query: "Show Ltac Profile.", stateId: ${stateId}, routeId: ${routeId})`);
-    this.writeMain(`<call val="Query"><pair><route_id val="${routeId}"/><pair><string>Show Ltac Profile.</string><state_id val="${stateId}"/></pair></pair></call>`);    
+    this.writeMain(this.serializer.query("Show Ltac Profile.", stateId, routeId));
 
     coqProto.GetValue('Query',await coqResult);
   }
@@ -384,13 +431,66 @@ export class IdeSlave extends coqtop.IdeSlave {
     const coqResult = this.coqGetResultOnce('Query');
     this.console.log('--------------------------------');
     this.console.log(`Call Query(stateId: ${stateId}, ${routeId!==undefined? "routeId: "+routeId+", ":""}query: ${query})`);
-    this.writeMain(`<call val="Query"><pair><route_id val="${routeId}"/><pair><string>${coqXml.escapeXml(query)}</string><state_id val="${stateId}"/></pair></pair></call>`);    
+    this.writeMain(this.serializer.query(query, stateId, routeId));
 
     coqProto.GetValue('Query',await coqResult);
     this.console.log(`Query: ${stateId} --> ...`);
   }
 
 
+  private static searchConstraintToXml(constraint: coqProto.SearchConstraint) : string {
+    let value : string;
+    switch(constraint.kind) {
+      case "name_pattern": case "type_pattern": case "subtype_pattern":
+        value = `<string>${coqXml.escapeXml(constraint.pattern)}</string>`;
+        break;
+      case "in_module":
+        value = `<list>${constraint.module.map(m => `<string>${coqXml.escapeXml(m)}</string>`).join('')}</list>`;
+        break;
+      case "include_blacklist":
+        value = '';
+        break;
+    }
+    return `<pair><search_cst val="${constraint.kind}">${value}</search_cst><bool val="${constraint.positive ? "true" : "false"}"/></pair>`;
+  }
+
+  /** @returns the objects, in the current state, that satisfy all of the constraints */
+  public async coqSearch(constraints: coqProto.SearchConstraint[]) : Promise<coqProto.CoqObject<string>[]> {
+    this.checkState();
+
+    const coqResult = this.coqGetResultOnce('Search');
+    this.console.log('--------------------------------');
+    this.console.log(`Call Search(${constraints.map(c => c.kind).join(', ')})`);
+    this.writeMain(`<call val="Search"><list>${constraints.map(IdeSlave.searchConstraintToXml).join('')}</list></call>`);
+
+    return coqProto.GetValue('Search', await coqResult);
+  }
+
+  /** @returns the cases of the inductive type: each case is the name of a constructor followed by the names of its arguments */
+  public async coqMkCases(inductive: string) : Promise<string[][]> {
+    this.checkState();
+
+    const coqResult = this.coqGetResultOnce('MkCases');
+    this.console.log('--------------------------------');
+    this.console.log(`Call MkCases(${inductive})`);
+    this.writeMain(`<call val="MkCases"><string>${coqXml.escapeXml(inductive)}</string></call>`);
+
+    return coqProto.GetValue('MkCases', await coqResult);
+  }
+
+  /** Kills the asynchronous proof worker `worker` */
+  public async coqStopWorker(worker: string) : Promise<void> {
+    this.checkState();
+
+    const coqResult = this.coqGetResultOnce('StopWorker');
+    this.console.log('--------------------------------');
+    this.console.log(`Call StopWorker(${worker})`);
+    this.writeMain(`<call val="StopWorker"><string>${coqXml.escapeXml(worker)}</string></call>`);
+
+    coqProto.GetValue('StopWorker', await coqResult);
+    this.console.log(`StopWorker: ${worker} --> ()`);
+  }
+
   public async coqGetOptions(options: coqtop.CoqOptions) : Promise<void> {
     this.checkState();
 
@@ -428,7 +528,7 @@ export class IdeSlave extends coqtop.IdeSlave {
 }
 
 
-const CoqOptionsMapping = {
+export const CoqOptionsMapping = {
   asymmetricPatterns:                       "Asymmetric Patterns",
   atomicLoad:                               "Atomic Load",
   automaticCoercionsImport:                 "Automatic Coercions Import",
@@ -454,6 +554,7 @@ const CoqOptionsMapping = {
   defaultProofUsing:                        "Default Proof Using",
   defaultTimeout:                           "Default Timeout",
   dependentPropositionsElimination:         "Dependent Propositions Elimination",
+  diffs:                                    "Diffs",
   discriminateIntroduction:                 "Discriminate Introduction",
   dumpBytecode:                             "Dump Bytecode",
   eliminationSchemes:                       "Elimination Schemes",
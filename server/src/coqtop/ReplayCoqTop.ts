@@ -0,0 +1,112 @@
+'use strict';
+
+import * as stream from 'stream';
+import * as vscode from 'vscode-languageserver';
+import * as semver from 'semver';
+
+import * as coqtop from './CoqTop';
+import {CoqtopSpawnError, InitResult} from './CoqTop';
+import {IdeSlave as IdeSlave8} from './IdeSlave8';
+import {escapeXml} from './xml-protocol/coq-xml';
+import {SessionEvent, readSession} from './SessionRecording';
+
+/**
+ * Plays the part of coqtop by serving the responses of a recorded session (see `SessionRecorder`).
+ * Each call must match the next recorded call; otherwise it fails with a `CallFailure`.
+ */
+export class ReplayCoqTop extends IdeSlave8 implements coqtop.CoqTop {
+  private mainChannel : stream.PassThrough|null = null;
+  private session : SessionEvent[] = [];
+  private version : semver.SemVer|null = null;
+  /** Index of the next event of the session to replay */
+  private next = 0;
+
+  /**
+   * @param source the recorded events, or a session file to read them from when coqtop is started
+   * @param realTime delay the responses as they were in the recorded session; otherwise they are served at once
+   */
+  constructor(private readonly source: SessionEvent[]|string, console: vscode.RemoteConsole, private readonly realTime = false) {
+    super(console);
+    if(typeof source !== "string")
+      this.setSession(source);
+  }
+
+  private setSession(session: SessionEvent[]) {
+    this.session = session;
+    const version = session.find(event => event.kind === "version");
+    this.version = semver.coerce(version ? version.data : "");
+  }
+
+  public /* override */ dispose() {
+    super.dispose();
+    this.mainChannel = null;
+  }
+
+  public isRunning() : boolean {
+    return this.mainChannel !== null;
+  }
+
+  public getVersion() {
+    return this.version;
+  }
+
+  public async startCoq() : Promise<InitResult> {
+    if(this.isRunning())
+      throw new CoqtopSpawnError("replay", "coqtop is already started");
+    if(typeof this.source === "string") {
+      try {
+        this.setSession(await readSession(this.source));
+      } catch(err) {
+        throw new CoqtopSpawnError(this.source, "cannot read the session to replay: " + err.toString());
+      }
+    }
+
+    this.mainChannel = new stream.PassThrough();
+    const mainW = new stream.Writable({
+      write: (chunk: Buffer|string, encoding: string, callback: () => void) => {
+        this.onCall(chunk.toString());
+        callback();
+      }
+    });
+    const controlChannel = new stream.PassThrough();
+    this.connect(this.version ? this.version.format() : "", this.mainChannel, mainW, controlChannel, controlChannel);
+
+    this.next = 0;
+    this.serveResponses(0);
+    return await this.coqInit();
+  }
+
+  private onCall(call: string) {
+    const expected = this.session[this.next];
+    if(!expected)
+      this.fail(`the recorded session has ended, but got the call ${call}`);
+    else if(expected.data !== call)
+      this.fail(`the session diverged from the recording: expected the call ${expected.data}, but got ${call}`);
+    else {
+      ++this.next;
+      this.serveResponses(expected.time);
+    }
+  }
+
+  /** Sends the responses that were recorded before the next call */
+  private serveResponses(since: number) {
+    while(this.next < this.session.length && this.session[this.next].kind !== "call") {
+      const event = this.session[this.next++];
+      if(event.kind === "response")
+        this.respond(event.data, this.realTime ? event.time - since : 0);
+    }
+  }
+
+  private respond(data: string, delay: number) {
+    const channel = this.mainChannel;
+    setTimeout(() => {
+      if(channel && channel === this.mainChannel)
+        channel.write(data);
+    }, Math.max(delay, 0));
+  }
+
+  private fail(message: string) {
+    this.console.warn('Replay: ' + message);
+    this.respond(`<value val="fail"><state_id val="0"/><string>${escapeXml('Replay: ' + message)}</string></value>`, 0);
+  }
+}
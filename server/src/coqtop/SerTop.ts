@@ -0,0 +1,335 @@
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode-languageserver';
+import * as semver from 'semver';
+import {spawn} from 'child_process';
+
+import {CoqTopSettings} from '../protocol';
+import * as coqProto from './coq-proto';
+import * as coqtop from './CoqTop';
+import {Interrupted, CallFailure, CoqtopSpawnError, CommunicationError} from './CoqTop';
+import {InitResult, AddResult, EditAtResult, GoalResult, CoqOptions} from './CoqTop';
+import {CoqOptionsMapping} from './IdeSlave8';
+import * as sexp from './serapi/sexp';
+import {Sexp} from './serapi/sexp';
+import * as serapi from './serapi/serapi-protocol';
+
+/** The parts of the sertop process that are used */
+export interface SerTopProcess {
+  stdin: NodeJS.WritableStream;
+  stdout: NodeJS.ReadableStream;
+  stderr: NodeJS.ReadableStream;
+  kill(signal?: NodeJS.Signals) : void;
+  on(event: string, listener: (...args: any[]) => void) : void;
+}
+
+interface PendingCall {
+  answers: Sexp[];
+  resolve: (answers: Sexp[]) => void;
+}
+
+/**
+ * Talks to `sertop` (SerAPI) with S-expressions instead of the XML protocol of coqidetop.
+ * Add, Edit_at and Goal are mapped onto SerAPI's Add+Exec, Cancel and Query Goals;
+ * queries are run with Query Vernac, which does not change the document.
+ * Search, MkCases and StopWorker have no counterpart in SerAPI.
+ */
+export class SerTop extends coqtop.CoqTop {
+  private proc : SerTopProcess|null = null;
+  private reader = new sexp.SexpReader();
+  private pending = new Map<string, PendingCall>();
+  private nextTag = 0;
+  private coqtopVersion : semver.SemVer;
+  /** The states that were added on top of the root state, in order */
+  private stateIds : number[] = [];
+  private rootStateId = 1;
+  private tip = 1;
+
+  constructor(private settings: CoqTopSettings, private scriptFile: string, private projectRoot: string, private console: vscode.RemoteConsole) {
+    super();
+    this.reader.on('sexp', (x: Sexp) => this.onSexp(x));
+    this.reader.on('error', (err: Error) => this.console.error('sertop: ' + err.message));
+  }
+
+  public dispose() {
+    if(this.isRunning() && this.callbacks.onClosed)
+      this.callbacks.onClosed(false);
+    this.callbacks = {};
+    if(this.proc) {
+      try {
+        this.proc.kill();
+      } catch(e) {}
+      this.proc = null;
+    }
+  }
+
+  public isRunning() : boolean {
+    return this.proc !== null;
+  }
+
+  public isConnected() : boolean {
+    return this.isRunning();
+  }
+
+  public getVersion() {
+    return this.coqtopVersion;
+  }
+
+  public async startCoq() : Promise<InitResult> {
+    if(this.proc)
+      throw new CoqtopSpawnError(this.sertopBin, "sertop is already started");
+
+    const version = await this.detectVersion();
+    if(!version)
+      this.console.warn(`Could not detect coqtop version`);
+    this.coqtopVersion = semver.coerce(version);
+
+    const args = serapi.translateArgs(this.settings.args);
+    if(this.coqtopVersion && semver.satisfies(this.coqtopVersion, ">= 8.10"))
+      args.push(`--topfile=${this.scriptFile}`);
+    this.console.log('exec: ' + this.sertopBin + ' ' + args.join(' '));
+    try {
+      this.proc = this.spawnSerTop(args);
+    } catch(error) {
+      this.console.error('Could not spawn sertop: ' + error);
+      throw new CoqtopSpawnError(this.sertopBin, error);
+    }
+    this.proc.stdout.setEncoding('utf8');
+    this.proc.stdout.on('data', (data: string) => this.reader.write(data));
+    this.proc.stderr.on('data', (data: string) => this.console.log('sertop-stderr: ' + data));
+    this.proc.on('error', (err: Error) => this.onExit(true, 'sertop could not be started: ' + err.message));
+    this.proc.on('exit', (code: number) => this.onExit(false, 'sertop closed with code: ' + code));
+
+    return await this.coqInit();
+  }
+
+  /** @returns the version of the Coq that sertop is built against */
+  protected detectVersion() : Promise<string|null> {
+    return coqtop.detectVersion(this.coqtopBin, this.projectRoot, this.console);
+  }
+
+  protected spawnSerTop(args: string[]) : SerTopProcess {
+    return spawn(this.sertopBin, args, {detached: false, cwd: this.projectRoot});
+  }
+
+  private onExit(isError: boolean, message: string) {
+    this.console.log(message);
+    if(this.isRunning() && this.callbacks.onClosed)
+      this.callbacks.onClosed(isError, message);
+    this.proc = null;
+    this.pending.forEach(call => call.resolve([['CoqExn', [['str', message]]]]));
+    this.pending.clear();
+  }
+
+  private get coqtopBin() {
+    return path.join(this.settings.binPath.trim(), this.settings.coqtopExe);
+  }
+
+  private get sertopBin() {
+    return path.join(this.settings.binPath.trim(), this.settings.sertopExe || "sertop");
+  }
+
+  private onSexp(x: Sexp) {
+    if(!(x instanceof Array))
+      this.console.log('sertop: ' + x);
+    else if(x[0] === 'Feedback') {
+      if(this.callbacks.onFeedback)
+        this.callbacks.onFeedback(serapi.decodeFeedback(x));
+    } else if(x[0] === 'Answer') {
+      const call = this.pending.get(x[1] as string);
+      if(!call || x[2] === 'Ack')
+        return;
+      else if(x[2] === 'Completed') {
+        this.pending.delete(x[1] as string);
+        call.resolve(call.answers);
+      } else
+        call.answers.push(x[2]);
+    }
+  }
+
+  /** Sends `command` and collects its answers until it is completed */
+  private call(command: Sexp) : Promise<Sexp[]> {
+    if(!this.proc)
+      return Promise.reject(new CommunicationError("sertop is not running"));
+    const tag = `vscoq${this.nextTag++}`;
+    const result = new Promise<Sexp[]>(resolve => this.pending.set(tag, {answers: [], resolve: resolve}));
+    this.proc.stdin.write(sexp.print([tag, command]) + '\n', 'utf8');
+    return result;
+  }
+
+  /** Throws the exception among the answers, if any; the state to go back to is `stateId` */
+  private checkAnswers(answers: Sexp[], stateId?: number) {
+    const exn = answers.find(a => a instanceof Array && a[0] === 'CoqExn');
+    if(!exn)
+      return;
+    const error = serapi.decodeCoqExn(exn);
+    if(error.interrupted)
+      throw new Interrupted(stateId);
+    throw new CallFailure(error.message, stateId, error.location);
+  }
+
+  /** @returns the objects of the answer `(ObjList ...)` */
+  private objects(answers: Sexp[]) : Sexp[] {
+    const objList = answers.find(a => a instanceof Array && a[0] === 'ObjList');
+    return objList ? objList[1] as Sexp[] : [];
+  }
+
+  public async coqInterrupt() : Promise<boolean> {
+    if(!this.proc)
+      return false;
+    this.console.log('--------------------------------');
+    this.console.log('Sending SIGINT');
+    this.proc.kill("SIGINT");
+    return true;
+  }
+
+  public async coqInit() : Promise<InitResult> {
+    // sertop starts with a new document whose root state is 1
+    this.stateIds = [];
+    this.tip = this.rootStateId;
+    return {stateId: this.rootStateId};
+  }
+
+  public async coqQuit() : Promise<void> {
+    if(!this.proc)
+      return;
+    this.proc.stdin.write(sexp.print(['Quit']) + '\n', 'utf8');
+    this.dispose();
+  }
+
+  public async coqGoal() : Promise<GoalResult> {
+    this.console.log('--------------------------------');
+    this.console.log(`Call Query Goals(${this.tip})`);
+    const answers = await this.call(serapi.queryGoals(this.tip));
+    this.checkAnswers(answers);
+    const goals = this.objects(answers).map(serapi.decodeGoals).find(g => g !== undefined);
+    if(!goals)
+      return {mode: 'no-proof'};
+    const print = (gs: serapi.SerGoal[]) => Promise.all(gs.map(g => this.printGoal(g)));
+    let backgroundGoals : coqProto.UnfocusedGoalStack = null;
+    for(const [before, after] of goals.stack)
+      backgroundGoals = {before: await print(before), next: backgroundGoals, after: await print(after)};
+    return {
+      mode: 'proof',
+      goals: await print(goals.goals),
+      backgroundGoals: backgroundGoals,
+      shelvedGoals: await print(goals.shelf),
+      abandonedGoals: await print(goals.givenUp),
+    };
+  }
+
+  private async printConstr(constr: Sexp) : Promise<string> {
+    const answers = await this.call(serapi.printConstr(constr, this.tip));
+    this.checkAnswers(answers);
+    return this.objects(answers).map(serapi.decodeString).find(s => s !== undefined) || "";
+  }
+
+  private async printGoal(goal: serapi.SerGoal) : Promise<coqProto.Subgoal> {
+    const hypotheses : string[] = [];
+    for(const hyp of goal.hyps) {
+      const body = hyp.body !== undefined ? ` := ${await this.printConstr(hyp.body)}` : "";
+      hypotheses.push(`${hyp.names.join(', ')}${body} : ${await this.printConstr(hyp.ty)}`);
+    }
+    const result : coqProto.Subgoal = {id: goal.id, hypotheses: hypotheses, goal: await this.printConstr(goal.ty)};
+    if(goal.name)
+      result.name = goal.name;
+    return result;
+  }
+
+  public async coqEvars() : Promise<string[]> {
+    return [];
+  }
+
+  public async coqHints() : Promise<coqProto.HintsReturn|null> {
+    return null;
+  }
+
+  public async getStatus(force: boolean) : Promise<coqProto.CoqStatus> {
+    if(force)
+      this.checkAnswers(await this.call(serapi.exec(this.tip)), this.tip);
+    return {path: [], allProofs: [], proofNumber: 0};
+  }
+
+  public async coqAddCommand(command: string, editId: number, stateId: number, verbose?: boolean) : Promise<AddResult> {
+    this.console.log('--------------------------------');
+    this.console.log(`Call Add("${command.trim().substr(0, 20) + (command.trim().length > 20 ? "..." : "")}", stateId: ${stateId})`);
+    const answers = await this.call(serapi.add(command, stateId));
+    this.checkAnswers(answers);
+    const added = answers.find(a => a instanceof Array && a[0] === 'Added');
+    if(!added)
+      throw new CallFailure(`sertop did not add the command`, stateId);
+    const result = serapi.decodeAdded(added);
+    this.stateIds.push(result.stateId);
+    this.tip = result.unfocusedStateId || result.stateId;
+
+    // Unlike coqidetop, sertop does not run the commands that are added
+    this.checkAnswers(await this.call(serapi.exec(result.stateId)), stateId);
+    this.console.log(`Add:  ${stateId} --> ${result.stateId}`);
+    return {stateId: result.stateId, message: "", unfocusedStateId: result.unfocusedStateId};
+  }
+
+  /** SerAPI has no Edit_at: the states after `stateId` are cancelled */
+  public async coqEditAt(stateId: number) : Promise<EditAtResult> {
+    const index = this.stateIds.indexOf(stateId);
+    if(index < 0 && stateId !== this.rootStateId)
+      throw new CallFailure(`Unknown state ${stateId}`);
+    const cancelled = this.stateIds.slice(index + 1);
+    this.console.log('--------------------------------');
+    this.console.log(`Call Cancel(${cancelled.join(' ')})`);
+    if(cancelled.length > 0) {
+      const answers = await this.call(serapi.cancel(cancelled));
+      this.checkAnswers(answers);
+      const canceled = answers.filter(a => a instanceof Array && a[0] === 'Canceled').map(serapi.decodeCanceled);
+      this.console.log(`Cancel: --> ${[].concat(...canceled).join(' ')}`);
+    }
+    this.stateIds = this.stateIds.slice(0, index + 1);
+    this.tip = stateId;
+    return {};
+  }
+
+  public async coqLtacProfilingResults(stateId?: number, routeId?: number) : Promise<void> {
+    await this.coqQuery("Show Ltac Profile.", stateId, routeId);
+  }
+
+  public async coqResizeWindow(columns: number) : Promise<void> {
+    if(this.proc)
+      await this.coqQuery(`Set Printing Width ${columns}.`);
+  }
+
+  public async coqQuery(query: string, stateId?: number, routeId?: number) : Promise<void> {
+    this.console.log('--------------------------------');
+    this.console.log(`Call Query Vernac(stateId: ${stateId}, query: ${query})`);
+    this.checkAnswers(await this.call(serapi.queryVernac(query, stateId || this.tip, routeId || 0)));
+  }
+
+  public async coqSearch(constraints: coqProto.SearchConstraint[]) : Promise<coqProto.CoqObject<string>[]> {
+    throw new CallFailure("Search is not supported by the SerAPI backend");
+  }
+
+  public async coqMkCases(inductive: string) : Promise<string[][]> {
+    throw new CallFailure("MkCases is not supported by the SerAPI backend");
+  }
+
+  public async coqStopWorker(worker: string) : Promise<void> {
+    throw new CallFailure("StopWorker is not supported by the SerAPI backend");
+  }
+
+  public async coqGetOptions(options: CoqOptions) : Promise<void> {
+  }
+
+  public async coqSetOptions(options: CoqOptions) : Promise<void> {
+    for(const optionKey in options) {
+      const name = CoqOptionsMapping[optionKey];
+      const value = options[optionKey];
+      if(value === undefined || typeof name !== 'string')
+        continue;
+      else if(typeof value === 'boolean')
+        await this.coqQuery(`${value ? "Set" : "Unset"} ${name}.`);
+      else if(typeof value === 'number')
+        await this.coqQuery(`Set ${name} ${value}.`);
+      else
+        await this.coqQuery(`Set ${name} "${value}".`);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as nodeAsync from '../util/nodejs-async';
+
+/**
+ * One line of a session file: the version of coqtop, a call written to its main channel,
+ * or a chunk of XML read from it. `time` is in milliseconds since the start of the session.
+ */
+export interface SessionEvent {
+  time: number;
+  kind: "version" | "call" | "response";
+  data: string;
+}
+
+/** Appends the traffic of the main channel of a coqtop instance to a session file, one JSON event per line */
+export class SessionRecorder {
+  private readonly start = Date.now();
+  private readonly out : fs.WriteStream;
+
+  constructor(file: string, version: string) {
+    this.out = fs.createWriteStream(file, {encoding: 'utf8'});
+    this.out.on('error', () => {});
+    this.record("version", version);
+  }
+
+  public call(data: string) {
+    this.record("call", data);
+  }
+
+  public response(data: string) {
+    this.record("response", data);
+  }
+
+  /** Closes the session file; resolves once it has been written */
+  public dispose() : Promise<void> {
+    return new Promise<void>(resolve => this.out.end(resolve));
+  }
+
+  private record(kind: SessionEvent["kind"], data: string) {
+    const event : SessionEvent = {time: Date.now() - this.start, kind: kind, data: data};
+    this.out.write(JSON.stringify(event) + '\n');
+  }
+}
+
+export function parseSession(text: string) : SessionEvent[] {
+  return text.split('\n')
+    .filter(line => line.trim() !== "")
+    .map(line => JSON.parse(line) as SessionEvent);
+}
+
+export async function readSession(file: string) : Promise<SessionEvent[]> {
+  return parseSession(await nodeAsync.fs.readFile(file, 'utf8'));
+}
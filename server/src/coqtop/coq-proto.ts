@@ -189,6 +189,12 @@ export interface CoqObject<T> {
   object: T
 }
 
+/** A constraint of the `Search` call; it is inverted unless `positive` */
+export type SearchConstraint =
+  {kind: "name_pattern"|"type_pattern"|"subtype_pattern", pattern: string, positive: boolean} |
+  {kind: "in_module", module: string[], positive: boolean} |
+  {kind: "include_blacklist", positive: boolean};
+
 export interface CoqInfo {
   coqtop_version: string,
   protocol_version: string,
@@ -200,6 +206,8 @@ export interface Subgoal {
   id: number;
   hypotheses: AnnotatedText[];
   goal: AnnotatedText;
+  /** Set by Coq >= 8.14 for goals named with `?[name]` */
+  name?: string;
 }
 
 export interface UnfocusedGoalStack {
@@ -240,7 +248,7 @@ export type CoqValue =
   AnnotatedText |
   Location | MessageLevel | Message |
   FeedbackContent | LtacProfTactic | LtacProfResults |
-  CoqStatus |
+  CoqStatus | CoqObject<string> |
   ValueReturn | FailValue;
 
 
@@ -281,9 +289,12 @@ export interface EditAtJumpFocusReturn {
   focusedQedState: StateId,
   oldFocusedState: StateId,
 }
+/** pairs of a description and the command that applies the hint */
 export type Hint = [string,string][];
 export interface HintsReturn {
+  /** hints for each hypothesis */
   hintsA: Hint[],
+  /** hints for the goal */
   hintB: Hint,
 }
 export interface InterpReturn {
@@ -292,15 +303,15 @@ export interface InterpReturn {
   value: string,
 }
 
-export type ReturnValue = AddReturn|Goals|EditAtJumpFocusReturn|HintsReturn|InterpReturn|AnnotatedText|StateId|CoqStatus|CoqInfo|CoqObject<string>|Map<string[],OptionState>|string[]|string[][]|{};
+export type ReturnValue = AddReturn|Goals|EditAtJumpFocusReturn|HintsReturn|InterpReturn|AnnotatedText|StateId|CoqStatus|CoqInfo|CoqObject<string>[]|Map<string[],OptionState>|string[]|string[][]|{};
 export function GetValue(x: 'Add', value: ValueReturn) : AddReturn;
 export function GetValue(x: 'Edit_at', value: ValueReturn) : EditAtJumpFocusReturn|null;
 export function GetValue(x: 'Goal', value: ValueReturn) : Goals|null;
 export function GetValue(x: 'Query', value: ValueReturn) : void;
 export function GetValue(x: 'Evars', value: ValueReturn) : string[];
-export function GetValue(x: 'Hints', value: ValueReturn) : HintsReturn;
+export function GetValue(x: 'Hints', value: ValueReturn) : HintsReturn|null;
 export function GetValue(x: 'Status', value: ValueReturn) : CoqStatus;
-export function GetValue(x: 'Search', value: ValueReturn) : CoqObject<string>;
+export function GetValue(x: 'Search', value: ValueReturn) : CoqObject<string>[];
 export function GetValue(x: 'GetOptions', value: ValueReturn) : Map<string[],OptionState>;
 export function GetValue(x: 'SetOptions', value: ValueReturn) : void;
 export function GetValue(x: 'MkCases', value: ValueReturn) : string[][];
@@ -331,11 +342,13 @@ export function GetValue(x: string, value: ValueReturn) : ReturnValue {
     } case 'Evars': {
       return value.result as Evars_rty || []
     } case 'Hints': {
-      return value.result as Hints_rty;
+      const v = value.result as Hints_rty;
+      const toHint = (h: Pair<string,string>[]) => h.map<[string,string]>((x) => [x[0], x[1]]);
+      return v ? {hintsA: v[0].map(toHint), hintB: toHint(v[1])} : null;
     } case 'Status': {
       return value.result as CoqStatus;
     } case 'Search': {
-      return value.result as CoqObject<string>;
+      return value.result as Search_rty;
     } case 'GetOptions': {
       const v = value.result as GetOptions_rty;
       return new Map<string[],OptionState>(v.map<[string[],OptionState]>((x) => [x[0], x[1]]))
@@ -0,0 +1,232 @@
+'use strict';
+import * as coqProto from '../coq-proto';
+import {Sexp, field, flatten} from './sexp';
+
+/** A goal of SerAPI; its terms are kept as S-expressions until they are printed */
+export interface SerGoal {
+  id: number;
+  name?: string;
+  ty: Sexp;
+  hyps: {names: string[], body?: Sexp, ty: Sexp}[];
+}
+
+export interface SerGoals {
+  goals: SerGoal[];
+  /** The unfocused goals, innermost first: the goals before and after the focus */
+  stack: [SerGoal[], SerGoal[]][];
+  shelf: SerGoal[];
+  givenUp: SerGoal[];
+}
+
+export type AddedResult = {stateId: number, location?: coqProto.Location, unfocusedStateId?: number};
+
+export interface CoqExn {
+  message: string;
+  location?: coqProto.Location;
+  interrupted: boolean;
+}
+
+/** `(Add ((ontop <stateId>) (lim 1)) "<command>")` */
+export function add(command: string, stateId: number) : Sexp {
+  return ['Add', [['ontop', stateId.toString()], ['lim', '1']], command];
+}
+
+export function exec(stateId: number) : Sexp {
+  return ['Exec', stateId.toString()];
+}
+
+export function cancel(stateIds: number[]) : Sexp {
+  return ['Cancel', stateIds.map(id => id.toString())];
+}
+
+export function queryGoals(stateId: number) : Sexp {
+  return ['Query', [['sid', stateId.toString()]], 'Goals'];
+}
+
+/** Runs a command without adding it to the document; its output is sent as feedback on `routeId` */
+export function queryVernac(command: string, stateId: number, routeId: number) : Sexp {
+  return ['Query', [['sid', stateId.toString()], ['route', routeId.toString()]], ['Vernac', command]];
+}
+
+export function printConstr(constr: Sexp, stateId: number) : Sexp {
+  return ['Print', [['sid', stateId.toString()], ['pp', [['pp_format', 'PpStr']]]], ['CoqConstr', constr]];
+}
+
+/** Translates the load path arguments of coqtop (`-R dir lib`) into those of sertop (`-R dir,lib`) */
+export function translateArgs(args: string[]) : string[] {
+  const result : string[] = [];
+  for(let i = 0; i < args.length; ++i) {
+    if((args[i] === '-R' || args[i] === '-Q') && i + 2 < args.length) {
+      result.push(args[i], `${args[i+1]},${args[i+2]}`);
+      i += 2;
+    } else
+      result.push(args[i]);
+  }
+  return result;
+}
+
+/** Converts a `Pp.t` into plain text */
+export function ppToString(pp: Sexp) : string {
+  if(pp === 'Pp_force_newline')
+    return '\n';
+  else if(pp === 'Pp_empty')
+    return '';
+  else if(typeof pp === 'string')
+    return pp;
+  switch(pp[0]) {
+    case 'Pp_string': return pp[1] as string;
+    case 'Pp_glue': return (pp[1] as Sexp[]).map(ppToString).join('');
+    case 'Pp_box': return ppToString(pp[2]);
+    case 'Pp_tag': return ppToString(pp[2]);
+    case 'Pp_print_break': return ' '.repeat(+pp[1]);
+    default: return '';
+  }
+}
+
+/** `((fname ...) (line_nb 1) (bol_pos 0) (line_nb_last 1) (bol_pos_last 0) (bp 5) (ep 9))`, possibly as an option */
+export function decodeLocation(loc: Sexp|undefined) : coqProto.Location|undefined {
+  if(!(loc instanceof Array) || loc.length === 0)
+    return undefined;
+  const record = loc.length === 1 ? loc[0] : loc;
+  const bp = field(record, 'bp');
+  const ep = field(record, 'ep');
+  if(typeof bp !== 'string' || typeof ep !== 'string')
+    return undefined;
+  return {start: +bp, stop: +ep};
+}
+
+function decodeMessageLevel(level: Sexp) : coqProto.MessageLevel {
+  switch(level) {
+    case 'Debug': return coqProto.MessageLevel.Debug;
+    case 'Info': return coqProto.MessageLevel.Info;
+    case 'Notice': return coqProto.MessageLevel.Notice;
+    case 'Warning': return coqProto.MessageLevel.Warning;
+    case 'Error': return coqProto.MessageLevel.Error;
+    default: return coqProto.MessageLevel.Notice;
+  }
+}
+
+/** `(Message (level L) (loc ...) (pp ...) (str "..."))`, or `(Message L loc pp)` before SerAPI 0.11 */
+function decodeMessage(contents: Sexp[]) : coqProto.Message {
+  const record = contents.slice(1);
+  const level = field(record, 'level');
+  if(level !== undefined) {
+    const str = field(record, 'str');
+    return {
+      level: decodeMessageLevel(level),
+      location: decodeLocation(field(record, 'loc')),
+      message: typeof str === 'string' ? str : ppToString(field(record, 'pp')),
+    };
+  } else
+    return {
+      level: decodeMessageLevel(contents[1]),
+      location: decodeLocation(contents[2]),
+      message: ppToString(contents[3]),
+    };
+}
+
+function decodeFeedbackContent(contents: Sexp) : coqProto.FeedbackContent {
+  const tag = typeof contents === 'string' ? contents : contents[0];
+  switch(tag) {
+    case 'Processed':
+      return {feedbackKind: "sentence-status", status: coqProto.SentenceStatus.Processed, worker: "", inProgressDelta: 0};
+    case 'Incomplete':
+      return {feedbackKind: "sentence-status", status: coqProto.SentenceStatus.Incomplete, worker: "", inProgressDelta: 0};
+    case 'Complete':
+      return {feedbackKind: "sentence-status", status: coqProto.SentenceStatus.Complete, worker: "", inProgressDelta: 0};
+    case 'AddedAxiom':
+      return {feedbackKind: "sentence-status", status: coqProto.SentenceStatus.AddedAxiom, worker: "", inProgressDelta: 0};
+    case 'ProcessingIn':
+      return {feedbackKind: "sentence-status", status: coqProto.SentenceStatus.ProcessingInWorker, worker: contents[1] as string, inProgressDelta: 0};
+    case 'InProgress':
+      return {feedbackKind: "sentence-status", status: coqProto.SentenceStatus.InProgress, worker: "", inProgressDelta: +contents[1]};
+    case 'FileLoaded':
+      return {feedbackKind: "file-loaded", module: contents[1] as string, filename: contents[2] as string};
+    case 'FileDependency':
+      return {feedbackKind: "file-dependency", source: flatten(contents[1]), dependsOn: contents[2] as string};
+    case 'Message':
+      return {feedbackKind: "message", ...decodeMessage(contents as Sexp[])};
+    default:
+      return {feedbackKind: "unknown", data: contents};
+  }
+}
+
+/** `(Feedback ((doc_id 0) (span_id 3) (route 0) (contents ...)))` */
+export function decodeFeedback(feedback: Sexp) : coqProto.StateFeedback {
+  const record = feedback[1];
+  return {
+    objectId: {objectKind: "stateid", stateId: +field(record, 'span_id')},
+    route: +(field(record, 'route') || "0"),
+    ...decodeFeedbackContent(field(record, 'contents')),
+  } as coqProto.StateFeedback;
+}
+
+/** `(Added <stateId> <loc> NewTip)` or `(Added <stateId> <loc> (Unfocus <stateId>))` */
+export function decodeAdded(answer: Sexp) : AddedResult {
+  const focus = answer[3];
+  return {
+    stateId: +answer[1],
+    location: decodeLocation(answer[2]),
+    unfocusedStateId: focus instanceof Array && focus[0] === 'Unfocus' ? +focus[1] : undefined,
+  };
+}
+
+/** `(Canceled (<stateId> ...))` */
+export function decodeCanceled(answer: Sexp) : number[] {
+  return (answer[1] as Sexp[]).map(id => +id);
+}
+
+/** `(CoqExn ((loc ...) (stm_ids ...) (backtrace ...) (exn ...) (pp ...) (str "...")))`, or `(CoqExn loc stm_ids exn)` before SerAPI 0.11 */
+export function decodeCoqExn(answer: Sexp) : CoqExn {
+  const record = answer[1];
+  const str = field(record, 'str');
+  const exn = str !== undefined ? field(record, 'exn') : answer[3];
+  const message = typeof str === 'string' ? str : flatten(exn || []);
+  return {
+    message: message,
+    location: decodeLocation(str !== undefined ? field(record, 'loc') : answer[1]),
+    interrupted: flatten(exn || []).indexOf('Sys.Break') >= 0 || /User interrupt/.test(message),
+  };
+}
+
+/** `(CoqString "...")` */
+export function decodeString(obj: Sexp) : string|undefined {
+  return obj instanceof Array && obj[0] === 'CoqString' ? obj[1] as string : undefined;
+}
+
+/** `(Id x)` */
+function decodeId(id: Sexp) : string {
+  return id instanceof Array ? id[1] as string : id;
+}
+
+/** `((info ((evar (Ser_Evar 4)) (name ((Id x))))) (ty ...) (hyp ((((Id x)) () ty) ...)))` */
+function decodeGoal(goal: Sexp) : SerGoal {
+  const info = field(goal, 'info');
+  const evar = field(info, 'evar');
+  const name = field(info, 'name');
+  return {
+    id: +(evar instanceof Array ? evar[1] : evar),
+    name: name instanceof Array && name.length > 0 ? decodeId(name[0]) : undefined,
+    ty: field(goal, 'ty'),
+    hyps: (field(goal, 'hyp') as Sexp[] || []).map(hyp => ({
+      names: (hyp[0] as Sexp[]).map(decodeId),
+      body: hyp[1] instanceof Array && hyp[1].length > 0 ? hyp[1][0] : undefined,
+      ty: hyp[2],
+    })),
+  };
+}
+
+/** `(CoqGoal ((goals ...) (stack ...) (shelf ...) (given_up ...) (bullet ...)))` */
+export function decodeGoals(obj: Sexp) : SerGoals|undefined {
+  if(!(obj instanceof Array) || obj[0] !== 'CoqGoal')
+    return undefined;
+  const record = obj[1];
+  const goals = (name: string) => (field(record, name) as Sexp[] || []).map(decodeGoal);
+  return {
+    goals: goals('goals'),
+    stack: (field(record, 'stack') as Sexp[] || []).map<[SerGoal[],SerGoal[]]>(level =>
+      [(level[0] as Sexp[]).map(decodeGoal), (level[1] as Sexp[]).map(decodeGoal)]),
+    shelf: goals('shelf'),
+    givenUp: goals('given_up'),
+  };
+}
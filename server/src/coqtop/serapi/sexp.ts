@@ -0,0 +1,130 @@
+'use strict';
+import * as events from 'events';
+
+/** An S-expression: an atom or a list of S-expressions */
+export type Sexp = string | Sexp[];
+
+const ATOM_CHARS = /^[^\s()";]+$/;
+
+/** Quotes `atom` if it is not a plain atom */
+export function printAtom(atom: string) : string {
+  if(ATOM_CHARS.test(atom))
+    return atom;
+  return '"' + atom.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t') + '"';
+}
+
+export function print(sexp: Sexp) : string {
+  if(typeof sexp === 'string')
+    return printAtom(sexp);
+  return '(' + sexp.map(print).join(' ') + ')';
+}
+
+function unescape(escaped: string) : string {
+  return escaped.replace(/\\(?:([\\"'ntbr ])|(\d{3})|x([0-9a-fA-F]{2})|\n[ \t]*)/g, (match, c: string, dec: string, hex: string) => {
+    if(dec)
+      return String.fromCharCode(parseInt(dec, 10));
+    else if(hex)
+      return String.fromCharCode(parseInt(hex, 16));
+    switch(c) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'r': return '\r';
+      case undefined: return '';
+      default: return c;
+    }
+  });
+}
+
+/**
+ * Reads the S-expressions of a stream of text, which may be split at any point;
+ * emits 'sexp' for each complete top-level expression
+ */
+export class SexpReader extends events.EventEmitter {
+  private stack : Sexp[][] = [];
+  private token = "";
+  private inString = false;
+  private escaping = false;
+  private inComment = false;
+
+  public write(text: string) {
+    for(const c of text)
+      this.readChar(c);
+  }
+
+  private readChar(c: string) {
+    if(this.inComment) {
+      if(c === '\n')
+        this.inComment = false;
+    } else if(this.inString) {
+      if(this.escaping)
+        this.escaping = false;
+      else if(c === '\\')
+        this.escaping = true;
+      else if(c === '"') {
+        this.inString = false;
+        this.pushSexp(unescape(this.token));
+        this.token = "";
+        return;
+      }
+      this.token += c;
+    } else if(c === '"') {
+      this.endAtom();
+      this.inString = true;
+    } else if(c === '(') {
+      this.endAtom();
+      this.stack.push([]);
+    } else if(c === ')') {
+      this.endAtom();
+      const list = this.stack.pop();
+      if(list === undefined)
+        this.emit('error', new Error("unbalanced ')' in S-expression"));
+      else
+        this.pushSexp(list);
+    } else if(c === ';') {
+      this.endAtom();
+      this.inComment = true;
+    } else if(/\s/.test(c))
+      this.endAtom();
+    else
+      this.token += c;
+  }
+
+  private endAtom() {
+    if(this.token.length > 0)
+      this.pushSexp(this.token);
+    this.token = "";
+  }
+
+  private pushSexp(sexp: Sexp) {
+    if(this.stack.length > 0)
+      this.stack[this.stack.length - 1].push(sexp);
+    else
+      this.emit('sexp', sexp);
+  }
+}
+
+/** Parses the S-expressions of `text`; a trailing incomplete expression is ignored */
+export function parse(text: string) : Sexp[] {
+  const reader = new SexpReader();
+  const results : Sexp[] = [];
+  reader.on('sexp', (sexp: Sexp) => results.push(sexp));
+  reader.on('error', (err: Error) => { throw err; });
+  reader.write(text + '\n');
+  return results;
+}
+
+/** Looks up the value of `field` in a record `((field value) ...)` */
+export function field(record: Sexp, name: string) : Sexp|undefined {
+  if(!(record instanceof Array))
+    return undefined;
+  const entry = record.find(e => e instanceof Array && e[0] === name);
+  return entry instanceof Array ? (entry.length === 2 ? entry[1] : entry.slice(1)) : undefined;
+}
+
+/** Concatenates the atoms of `sexp` */
+export function flatten(sexp: Sexp) : string {
+  if(typeof sexp === 'string')
+    return sexp;
+  return sexp.map(flatten).join(' ');
+}
@@ -0,0 +1,38 @@
+'use strict';
+import * as coqProto  from '../coq-proto';
+import {AnnotatedText} from '../../util/AnnotatedText';
+import {Node} from './deserialize.base';
+import {Deserialize_8_7} from './deserialize.8.7';
+
+namespace Nodes_8_14 {
+  /** Goals carry an optional user-given name as a fourth child */
+  export interface GoalNode {
+    $name: 'goal',
+    $: { },
+    $children: {[0]: number, [1]: AnnotatedText[], [2]: AnnotatedText|null, [3]: string|null} & {}[]
+  }
+
+  export type TypedNode = GoalNode;
+}
+
+export class Deserialize_8_14 extends Deserialize_8_7 {
+  public deserialize(v: Node) : coqProto.CoqValue {
+    const value = v as Nodes_8_14.TypedNode;
+    switch(value.$name) {
+      case 'goal': {
+        const goal : coqProto.Subgoal = {
+          id: +value.$children[0],
+          hypotheses: value.$children[1],
+          goal: value.$children[2] || [],
+        };
+        if(value.$children[3])
+          goal.name = value.$children[3];
+        return goal;
+      }
+      default:
+        return super.deserialize(v);
+    }
+  }
+
+  public static readonly baseVersion : string = "8.14";
+}
@@ -0,0 +1,33 @@
+'use strict';
+import * as coqProto  from '../coq-proto';
+import {AnnotatedText} from '../../util/AnnotatedText';
+import {Node} from './deserialize.base';
+import {Deserialize_8_14} from './deserialize.8.14';
+
+namespace Nodes_8_15 {
+  /** Output of the Ltac debugger, which coqidetop sends outside of any call */
+  export interface LtacDebugNode {
+    $name: 'ltac_debug',
+    $: {tag?: string},
+    $children: {[0]: AnnotatedText} & {}[]
+  }
+
+  export type TypedNode = LtacDebugNode;
+}
+
+export class Deserialize_8_15 extends Deserialize_8_14 {
+  public deserialize(v: Node) : coqProto.CoqValue {
+    const value = v as Nodes_8_15.TypedNode;
+    switch(value.$name) {
+      case 'ltac_debug':
+        return {
+          level: coqProto.MessageLevel.Debug,
+          message: value.$children[0] || "",
+        } as coqProto.Message;
+      default:
+        return super.deserialize(v);
+    }
+  }
+
+  public static readonly baseVersion = "8.15";
+}
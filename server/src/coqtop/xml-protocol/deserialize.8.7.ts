@@ -94,5 +94,5 @@ export class Deserialize_8_7 extends Deserialize {
   //   }
   // }
 
-  public static readonly baseVersion = "8.6";
+  public static readonly baseVersion : string = "8.6";
 }
@@ -1,12 +1,11 @@
 'use strict';
 import * as coqProto from '../coq-proto';
-import * as util from 'util';
 import {Node} from './coq-xml';
 export {Node} from './coq-xml';
 import {StateId, EditId, Pair, StateFeedback, LtacProfTactic, LtacProfResults,
   UnionL, Union, OptionState, Subgoal, Goals, Location, MessageLevel,
   Message, FailValue, UnfocusedGoalStack, SentenceStatus, FeedbackContent,
-  ValueReturn, CoqValue, CoqValueList, UnionCoqValue, CoqStatus} from '../coq-proto';
+  ValueReturn, CoqValue, CoqValueList, UnionCoqValue, CoqStatus, CoqObject} from '../coq-proto';
 import {AnnotatedText} from '../../util/AnnotatedText';
 
 export namespace Nodes {
@@ -283,7 +282,7 @@ export namespace Nodes {
     PairNode | ListNode | UnionNode |
     OptionNode | OptionValueNode | OptionStateNode |
     GoalNode | GoalsNode |
-    LocationNode | MessageLevelNode | MessageNode |
+    LocationNode | MessageLevelNode | MessageNode | EvarNode | CoqObjectNode<string> |
     LtacProfTacticNode | LtacProfResultsNode |
     FeedbackNode | FeedbackContentNode |
     StatusNode |
@@ -362,6 +361,8 @@ function check(t:'goals', r?: Goals);
 function check(t:'loc', r?: Location );
 function check(t:'message_level', r?: MessageLevel );
 function check(t:'message', r?: Message );
+function check(t:'evar', r?: string );
+function check(t:'coq_object', r?: CoqObject<string> );
 function check(t:'status', r?: CoqStatus );
 function check(t:'value', r?: ValueReturn|FailValue );
 function check(tag:string, result:CoqValue) : CoqValue {
@@ -457,6 +458,14 @@ export abstract class Deserialize {
           level: value.message_level, 
           message: value.$children[1] || ""
         });
+      case 'evar':
+        return check(value.$name, value.$children[0]);
+      case 'coq_object':
+        return check(value.$name, {
+          prefix: value.$children[0],
+          qualid: value.$children[1],
+          object: value.$children[2],
+        });
       case 'status':
         return check(value.$name, {
           path: value.$children[0],
@@ -560,7 +569,6 @@ export abstract class Deserialize {
         identity: value.$children[3],
         type: value.$children[4],
       }
-console.log("glob-ref: " + util.inspect(result));      
       return result;
     case 'globdef':
       result = {
@@ -570,7 +578,6 @@ console.log("glob-ref: " + util.inspect(result));
         secPath: value.$children[2],
         type: value.$children[3],
       }
-console.log("glob-def: " + util.inspect(result));
       return result;
     case 'message':
       return {
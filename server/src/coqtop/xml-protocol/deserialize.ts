@@ -1,8 +1,22 @@
 'use strict';
+import * as semver from 'semver';
+import {Deserialize} from './deserialize.base';
 import {Deserialize_8_7} from './deserialize.8.7';
+import {Deserialize_8_14} from './deserialize.8.14';
+import {Deserialize_8_15} from './deserialize.8.15';
 
 const DEFAULT_DESERIALIZER = Deserialize_8_7;
 
-export function createDeserializer(version: string) {
+/** Newest first; the first deserializer whose base version is satisfied is used */
+const DESERIALIZERS = [Deserialize_8_15, Deserialize_8_14];
+
+export function createDeserializer(version: string) : Deserialize {
+  const v = semver.coerce(version);
+  if(v) {
+    for(const deserializer of DESERIALIZERS) {
+      if(semver.gte(v, semver.coerce(deserializer.baseVersion)))
+        return new deserializer();
+    }
+  }
   return new DEFAULT_DESERIALIZER();
 }
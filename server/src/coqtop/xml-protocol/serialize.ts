@@ -0,0 +1,42 @@
+'use strict';
+import * as semver from 'semver';
+import {escapeXml} from './coq-xml';
+
+/** Encodes the calls whose signature changed between versions of the protocol */
+export class Serialize {
+  public add(command: string, editId: number, stateId: number, verbose: boolean) : string {
+    return `<call val="Add"><pair><pair><string>${escapeXml(command)}</string><int>${editId}</int></pair><pair><state_id val="${stateId}"/><bool val="${verbose}"/></pair></pair></call>`;
+  }
+
+  public query(query: string, stateId: number, routeId: number) : string {
+    return `<call val="Query"><pair><route_id val="${routeId}"/><pair><string>${escapeXml(query)}</string><state_id val="${stateId}"/></pair></pair></call>`;
+  }
+
+  public static readonly baseVersion : string = "8.7";
+}
+
+/**
+ * Add also takes the location of the command in the document (bp, (line_nb, bol_pos)),
+ * which coqidetop only uses to report breakpoints of the Ltac debugger
+ */
+export class Serialize_8_15 extends Serialize {
+  public add(command: string, editId: number, stateId: number, verbose: boolean) : string {
+    return `<call val="Add"><pair><pair><pair><pair><string>${escapeXml(command)}</string><int>${editId}</int></pair><pair><state_id val="${stateId}"/><bool val="${verbose}"/></pair></pair><int>0</int></pair><pair><int>0</int><int>0</int></pair></pair></call>`;
+  }
+
+  public static readonly baseVersion = "8.15";
+}
+
+/** Newest first; the first serializer whose base version is satisfied is used */
+const SERIALIZERS = [Serialize_8_15, Serialize];
+
+export function createSerializer(version: string) : Serialize {
+  const v = semver.coerce(version);
+  if(v) {
+    for(const serializer of SERIALIZERS) {
+      if(semver.gte(v, semver.coerce(serializer.baseVersion)))
+        return new serializer();
+    }
+  }
+  return new Serialize();
+}
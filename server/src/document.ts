@@ -2,16 +2,34 @@
 
 import {TextDocument, TextDocumentContentChangeEvent, RemoteConsole, Position, Range, Diagnostic} from 'vscode-languageserver';
 import * as vscode from 'vscode-languageserver';
-import {CancellationToken} from 'vscode-jsonrpc';
+import {CancellationToken, CancellationTokenSource} from 'vscode-jsonrpc';
 import * as thmProto from './protocol';
 import * as coqProto from './coqtop/coq-proto';
+import {CallFailure} from './coqtop/CoqTop';
 import * as coqParser from './parsing/coq-parser';
 import * as textUtil from './util/text-util';
-import {AnnotatedText, textToDisplayString} from './util/AnnotatedText';
+import {AnnotatedText, textToDisplayString, textToString} from './util/AnnotatedText';
 import {CoqStateMachine, GoalResult, StateStatus} from './stm/STM';
 import {FeedbackSync, DocumentFeedbackCallbacks} from './FeedbackSync';
-import {SentenceCollection} from './sentence-model/SentenceCollection';
+import {SentenceCollection, RenameFailure} from './sentence-model/SentenceCollection';
+import {Sentence} from './sentence-model/Sentence';
+import {QualId, SymbolKind} from './sentence-model/Scopes';
+import * as locateParsing from './parsing/locate-parsing';
+import * as searchParsing from './parsing/search-parsing';
+import * as casesParsing from './parsing/cases-parsing';
+import {findAssumptionSentences} from './parsing/assumptions-parsing';
+import {tactics} from './util/coq-tactics';
 import {CoqProject} from './CoqProject';
+import {createTimingReport} from './stm/TimingReport';
+import {libraryMatchesRequire} from './GlobIndex';
+import * as nodeAsync from './util/nodejs-async';
+import * as path from 'path';
+import * as url from 'url';
+
+/** How long to wait after an edit before checking the document again in continuous mode */
+const CONTINUOUS_CHECK_DELAY_MS = 300;
+/** How often to check whether the STM has finished the command that was running when the document was edited */
+const CONTINUOUS_CHECK_POLL_MS = 50;
 
 /** vscode needs to export this class */
 export interface TextDocumentItem {
@@ -22,6 +40,12 @@ export interface TextDocumentItem {
 }
 
 
+/** Identifies the document and position of a completion item so that it can be resolved */
+export interface CompletionItemData {
+  uri: string,
+  position: Position,
+}
+
 export interface MessageCallback {
   sendMessage(level: string, message: AnnotatedText, routeId: coqProto.RouteId) : void;
 }
@@ -40,7 +64,11 @@ export interface CoqtopStopCallback {
   sendCoqtopStop(reason: thmProto.CoqtopStopReason, message?: string);
 }
 
-export type DocumentCallbacks = MessageCallback & ResetCallback & LtacProfCallback & CoqtopStartCallback & CoqtopStopCallback & DocumentFeedbackCallbacks;
+export interface WorkersCallback {
+  sendWorkers(workers: thmProto.WorkerStatus[]) : void;
+}
+
+export type DocumentCallbacks = MessageCallback & ResetCallback & LtacProfCallback & CoqtopStartCallback & CoqtopStopCallback & WorkersCallback & DocumentFeedbackCallbacks;
 
 export class CoqDocument implements TextDocument {
   // TextDocument
@@ -57,12 +85,16 @@ export class CoqDocument implements TextDocument {
 
   private stm: CoqStateMachine|null = null;
   private clientConsole: RemoteConsole;
-  private callbacks : MessageCallback & ResetCallback & LtacProfCallback & CoqtopStartCallback & CoqtopStopCallback;
+  private callbacks : MessageCallback & ResetCallback & LtacProfCallback & CoqtopStartCallback & CoqtopStopCallback & WorkersCallback;
   private document: SentenceCollection = null;
   // Feedback destined for the extension client/view
   private feedback : FeedbackSync;
 
   private parsingRanges : Range[] = [];
+  /** Cancels the background check of the document in continuous mode */
+  private continuousCheck : CancellationTokenSource|null = null;
+  /** Set when coqtop could not be started for a continuous check; the document is not checked again until Coq is reset */
+  private continuousCheckFailed = false;
   // private interactionCommands = new AsyncWorkQueue();
   // private interactionLoopStatus = InteractionLoopStatus.Idle;
   // we'll use this as a callback, so protect it with an arrow function so it gets the correct "this" pointer
@@ -76,6 +108,7 @@ export class CoqDocument implements TextDocument {
 
     if(project.settings.coqtop.startOn === "open-script")
       this.resetCoq();
+    this.scheduleContinuousCheck();
   }
 
   public async applyTextEdits(changes: TextDocumentContentChangeEvent[], newVersion: number) {
@@ -96,6 +129,7 @@ export class CoqDocument implements TextDocument {
       this.updateHighlights();
       this.updateDiagnostics();
     }
+    this.scheduleContinuousCheck();
 
     if(this.isStmRunning() && this.project.settings.coq.diagnostics && this.project.settings.coq.diagnostics.checkTextSynchronization) {
       const documentText = this.document.getText();
@@ -195,7 +229,7 @@ export class CoqDocument implements TextDocument {
   /** creates the current highlights from scratch */
   private createHighlights() : thmProto.Highlights {
     const highlights : thmProto.Highlights =
-      { ranges: [ [], [], [], [], [], [] ] };
+      { ranges: [ [], [], [], [], [], [] ], semanticTokens: [ [], [], [], [], [] ], slowSentences: [ [], [], [] ] };
     if(!this.isStmRunning())
       return highlights;
     for(let sent of this.stm.getSentences()) {
@@ -206,6 +240,21 @@ export class CoqDocument implements TextDocument {
         ranges.push(Range.create(sent.range.start,sent.range.end));
       }
     }
+    for(let glob of this.stm.getGlobs()) {
+      const type = globToSemanticTokenType(glob.type);
+      if(type !== null)
+        highlights.semanticTokens[type].push(glob.range);
+    }
+    const threshold = this.project.settings.coq.slowSentenceThreshold;
+    if(threshold > 0) {
+      for(let sent of this.stm.getSentenceTimings()) {
+        if(sent.time === null)
+          continue;
+        const heat = sent.time >= 16*threshold ? 2 : sent.time >= 4*threshold ? 1 : sent.time >= threshold ? 0 : -1;
+        if(heat >= 0)
+          highlights.slowSentences[heat].push({range: sent.range, command: coqParser.normalizeText(sent.text).trim(), time: sent.time});
+      }
+    }
     return highlights;
   }
 
@@ -254,6 +303,7 @@ export class CoqDocument implements TextDocument {
   }
 
   public async resetCoq() {
+    this.continuousCheckFailed = false;
     if(this.isStmRunning())
       this.stm.shutdown(); // Don't bother awaiting
     this.stm = new CoqStateMachine(
@@ -269,6 +319,7 @@ export class CoqDocument implements TextDocument {
         message: (x1,x2,x3) => this.onCoqMessage(x1,x2,x3),
         ltacProfResults: (x1,x2) => this.onCoqStateLtacProf(x1,x2),
         coqDied: (reason: thmProto.CoqtopStopReason, error?: string) => this.onCoqDied(reason, error),
+        updateWorkers: (x1) => this.callbacks.sendWorkers(x1),
       });
   }
 
@@ -548,6 +599,9 @@ export class CoqDocument implements TextDocument {
   // }
 
   public async dispose() {
+    if(this.continuousCheck)
+      this.continuousCheck.cancel();
+    this.continuousCheck = null;
     if(this.isStmRunning()) {
       await this.stm.shutdown();
       this.stm = null;
@@ -827,6 +881,44 @@ export class CoqDocument implements TextDocument {
     return await this.interpretToPoint(this.document.getText().length,synchronous,token);
   }
 
+  /**
+   * In continuous mode, interprets the whole document once the edits settle;
+   * the check that is under way, if any, stops after its current command
+   */
+  private scheduleContinuousCheck() {
+    if(this.project.settings.coq.checkMode !== "continuous" || this.continuousCheckFailed)
+      return;
+    if(this.continuousCheck)
+      this.continuousCheck.cancel();
+    const check = new CancellationTokenSource();
+    this.continuousCheck = check;
+    setTimeout(() => this.checkContinuously(check.token), CONTINUOUS_CHECK_DELAY_MS);
+  }
+
+  private async checkContinuously(token: CancellationToken) {
+    try {
+      if(token.isCancellationRequested)
+        return;
+      if(!this.stm)
+        await this.resetCoq();
+      // Wait for the invalidated sentences to be cancelled and for the previous check to stop
+      await this.stm.flushEdits();
+      while(this.stm.isBusy() && !token.isCancellationRequested)
+        await new Promise(resolve => setTimeout(resolve, CONTINUOUS_CHECK_POLL_MS));
+      if(token.isCancellationRequested)
+        return;
+      const result = await this.interpretToEnd(false, token);
+      if(result.type === 'not-running' && result.reason === 'spawn-failed') {
+        this.continuousCheckFailed = true;
+        this.clientConsole.warn(`Continuous checking stopped: could not start ${result.coqtop}; reset Coq to check the document again`);
+      }
+    } catch(err) {
+      // The STM throws a string when the check is cancelled by a later edit
+      if(!token.isCancellationRequested)
+        this.clientConsole.warn("Continuous checking failed: " + err.toString());
+    }
+  }
+
   public async getGoal() : Promise<thmProto.CommandResult> {
     if(!this.isStmRunning())
       return {type: 'not-running', reason: "not-started"};
@@ -847,6 +939,22 @@ export class CoqDocument implements TextDocument {
     }
   }
 
+  public async getCachedGoalComparison(basePos: vscode.Position, pos: vscode.Position, direction: "preceding"|"subsequent") : Promise<thmProto.CommandResult> {
+    if(!this.isStmRunning())
+      return {type: 'not-running', reason: "not-started"};
+    try {
+      return this.toGoal(await this.stm.getCachedGoalComparison(basePos, pos, direction));
+    } finally {
+      this.updateDiagnostics(true);
+    }
+  }
+
+  public getProofTimeline(pos: vscode.Position) : Range[] {
+    if(!this.isStmRunning())
+      return [];
+    return this.stm.getProofTimeline(pos);
+  }
+
   public async getStatus(force: boolean) : Promise<thmProto.CommandResult> {
     if(!this.isStmRunning())
       return {type: 'not-running', reason: "not-started"};
@@ -880,6 +988,407 @@ export class CoqDocument implements TextDocument {
     }
   }
 
+  /**
+   * Completes the identifier at `position` with: the hypotheses of the current goal and
+   * tactics when within a proof, the declarations visible within this document, and the
+   * library objects found by coqtop
+   */
+  public async provideCompletions(position: Position) : Promise<vscode.CompletionList> {
+    const items : vscode.CompletionItem[] = [];
+    const labels = new Set<string>();
+    const add = (item: vscode.CompletionItem) => {
+      if(labels.has(item.label))
+        return;
+      labels.add(item.label);
+      items.push(item);
+    }
+    const data : CompletionItemData = {uri: this.uri, position: position};
+
+    if(this.isStmRunning()) {
+      const goal = await this.stm.getCachedGoal(position, "preceding");
+      if(goal.type === 'proof-view') {
+        if(goal.goals.length > 0) {
+          for(let h of goal.goals[0].hypotheses)
+            for(let id of h.identifier.split(','))
+              add({label: id.trim(), kind: vscode.CompletionItemKind.Variable, detail: textToString(h.expression)});
+        }
+        for(let tactic of tactics)
+          add({label: tactic, kind: vscode.CompletionItemKind.Keyword, detail: "tactic"});
+      }
+    }
+
+    for(let s of this.document.getVisibleSymbols(position)) {
+      if(s.symbol.kind === SymbolKind.Ltac)
+        add({label: s.id.join('.'), kind: vscode.CompletionItemKind.Keyword, detail: "Ltac"});
+      else
+        add({label: s.id.join('.'), kind: toCompletionItemKind(s.symbol.kind), data: data});
+    }
+
+    // Searching the library for short prefixes would be slow and return too many results
+    const ident = this.document.getIdentifierPrefixAt(position).split('.').pop();
+    if(!this.isStmRunning())
+      return vscode.CompletionList.create(items, false);
+    else if(ident.length < 3)
+      return vscode.CompletionList.create(items, true);
+    const output = await this.stm.queryText(`Search "${ident}".`, position);
+    const results = output ? searchParsing.parseSearch(output.map(textToString)) : [];
+    for(let r of results.filter(r => r.name.split('.').pop().startsWith(ident)).slice(0, 200))
+      add({label: r.name, kind: vscode.CompletionItemKind.Function, detail: r.type, data: data});
+    return vscode.CompletionList.create(items, false);
+  }
+
+  /** Fills in the type of a completion item by querying coqtop */
+  public async resolveCompletionItem(item: vscode.CompletionItem) : Promise<vscode.CompletionItem> {
+    if(item.detail || !this.isStmRunning())
+      return item;
+    const data = item.data as CompletionItemData;
+    const output = await this.stm.queryText(`Check ${item.label}.`, data.position);
+    const type = output ? searchParsing.parseCheck(output.map(textToString).join('\n')) : null;
+    if(type)
+      item.detail = type;
+    return item;
+  }
+
+  /**
+   * Shows the type of the identifier at `position`, as checked by coqtop in the state that precedes `position`.
+   * If the identifier is declared in this document by a sentence that has not been processed yet,
+   * the text of the declaring sentence is shown instead.
+   */
+  public async provideHover(position: Position) : Promise<vscode.Hover|null> {
+    const def = this.document.getDefinitionAt(position);
+    if(!def)
+      return null;
+    const focus = this.isStmRunning() ? this.stm.getFocusedPosition() : null;
+    const symbols = this.document.lookupDefinition(position);
+    if(symbols.length > 0 && (!focus || textUtil.positionIsAfter(symbols[0].source.getRange().end, focus)))
+      return {contents: {language: 'coq', value: symbols[0].source.getText().trim()}, range: def.range};
+    else if(!focus)
+      return null;
+
+    const id = def.id.join('.');
+    // Modules and tactics cannot be checked
+    const output = await this.stm.queryText(`Check ${id}.`, position) || await this.stm.queryText(`About ${id}.`, position);
+    if(!output || output.length === 0)
+      return null;
+    const psm = this.project.getPrettifySymbols();
+    return {
+      contents: {language: 'coq', value: output.map(text => textToDisplayString(psm.prettify(text))).join('\n')},
+      range: def.range,
+    };
+  }
+
+  public prepareRename(position: Position) : Range|null {
+    return this.document.prepareRename(position);
+  }
+
+  public rename(position: Position, newName: string) : vscode.WorkspaceEdit|vscode.ResponseError<void> {
+    try {
+      return {changes: {[this.uri]: this.document.rename(position, newName)}};
+    } catch(err) {
+      if(err instanceof RenameFailure)
+        return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, err.message);
+      else
+        throw err;
+    }
+  }
+
+  public provideDocumentSymbols() : vscode.DocumentSymbol[] {
+    return this.document.getDocumentSymbols();
+  }
+
+  public provideFoldingRanges() : vscode.FoldingRange[] {
+    return this.document.getFoldingRanges();
+  }
+
+  public provideSelectionRanges(positions: Position[]) : thmProto.SelectionRange[] {
+    return positions.map(pos => this.document.getSelectionRanges(pos)
+      .reduceRight<thmProto.SelectionRange|undefined>((parent, range) => ({range: range, parent: parent}), undefined));
+  }
+
+  /** Finds the `match`, `destruct` or `induction` at `position` whose cases have not been written yet */
+  private findCaseAnalysis(position: Position) : {sentence: Sentence, analysis: casesParsing.CaseAnalysis}|null {
+    const sentence = this.document.getSentenceAt(position);
+    if(!sentence)
+      return null;
+    const text = sentence.getText();
+    const offset = text.search(/\S|$/);
+    const analysis = casesParsing.parseCaseTactic(text.substring(offset)) || casesParsing.findMatch(text, sentence.offsetAt(position));
+    if(!analysis)
+      return null;
+    else if(analysis.kind !== "match")
+      return {sentence: sentence, analysis: {...analysis, start: offset + analysis.start, end: offset + analysis.end}};
+    else
+      return {sentence: sentence, analysis: analysis};
+  }
+
+  /** Offers to generate the cases of a `match`, `destruct` or `induction` */
+  public provideCodeActions(range: Range) : vscode.Command[] {
+    const target = this.findCaseAnalysis(range.start);
+    if(!target)
+      return [];
+    return [vscode.Command.create(`Generate the cases of ${target.analysis.term}`, 'extension.coq.makeCases', this.uri, range.start)];
+  }
+
+  /** The bullet that focuses the goal of `sentence`: the closest preceding bullet that is indented less than `sentence` */
+  private getEnclosingBullet(sentence: Sentence, column: number) : string|null {
+    for(let prev = sentence.prev; prev; prev = prev.prev) {
+      const text = prev.getText();
+      const offset = text.search(/\S|$/);
+      if(prev.positionAt(offset).character < column)
+        return /^(?:-+|\++|\*+)$/.test(text.trim()) ? text.trim() : null;
+    }
+    return null;
+  }
+
+  /**
+   * Asks coqtop for the constructors of the inductive type of the `match`, `destruct` or `induction` at `position`
+   * @returns the edit that writes one branch (`match`) or one bullet (tactics) per case
+   */
+  public async makeCases(position: Position) : Promise<vscode.TextEdit[]|vscode.ResponseError<void>> {
+    const target = this.findCaseAnalysis(position);
+    if(!target)
+      return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, "Expected a `match`, `destruct` or `induction`");
+    else if(!this.isStmRunning())
+      return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, "Coq is not running");
+    const {sentence, analysis} = target;
+
+    const output = await this.stm.queryText(`Check (${analysis.term}).`, sentence.getRange().start);
+    // The arguments of a definition are not known to coqtop until the definition is processed
+    const type = (output && casesParsing.parseCheckedType(output.map(textToString).join('\n')))
+      || (analysis.kind === "match" ? casesParsing.findBinderType(sentence.getText(), analysis.term) : null);
+    const inductive = type ? casesParsing.inductiveOfType(type) : null;
+    if(!inductive)
+      return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, `Cannot determine the inductive type of ${analysis.term}`);
+
+    let cases : string[][]|null;
+    try {
+      cases = await this.stm.makeCases(inductive);
+    } catch(err) {
+      if(err instanceof CallFailure)
+        return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, textToString(err.message));
+      else
+        throw err;
+    }
+    if(cases === null)
+      return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, "Coq is busy; try again once it has finished");
+
+    const range = Range.create(sentence.positionAt(analysis.start), sentence.positionAt(analysis.end));
+    if(analysis.kind === "match") {
+      const indent = this.document.getLine(range.start.line).text.match(/^\s*/)[0];
+      return [vscode.TextEdit.replace(range, casesParsing.matchSkeleton(analysis.term, cases, indent))];
+    } else {
+      const bullet = casesParsing.nextBullet(this.getEnclosingBullet(sentence, range.start.character));
+      const skeleton = casesParsing.tacticSkeleton(analysis, cases, bullet, " ".repeat(range.start.character));
+      return [vscode.TextEdit.replace(range, skeleton)];
+    }
+  }
+
+  /**
+   * @returns the sentences that are not proved, in document order,
+   * including those that coqtop reported to add an axiom although they do not look like it
+   */
+  public getAssumptions() : thmProto.Assumption[] {
+    const assumptions : thmProto.Assumption[] = findAssumptionSentences(this.document.getText())
+      .map(a => ({kind: a.kind, name: a.name, range: Range.create(this.positionAt(a.start), this.positionAt(a.end))}));
+    if(!this.isStmRunning())
+      return assumptions;
+    for(let sent of this.stm.getSentences()) {
+      if(sent.status === StateStatus.Axiom && !assumptions.some(a => textUtil.rangeIntersects(a.range, sent.range))) {
+        const text = this.document.getText().substring(this.offsetAt(sent.range.start), this.offsetAt(sent.range.end));
+        assumptions.push({kind: "unsafe", name: coqParser.normalizeText(text).trim(), range: sent.range});
+      }
+    }
+    return assumptions.sort((x,y) => textUtil.positionIsBefore(x.range.start, y.range.start) ? -1 : 1);
+  }
+
+  /** Asks coqtop which axioms and unproved lemmas `name` depends on, at the current focus */
+  public async printAssumptions(name: string) : Promise<string|vscode.ResponseError<void>> {
+    if(!this.isStmRunning())
+      return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, "Coq is not running");
+    const output = await this.stm.queryText(`Print Assumptions ${name}.`);
+    if(!output)
+      return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, `Cannot print the assumptions of ${name}; has it been processed?`);
+    return output.map(textToString).join('\n');
+  }
+
+  /** @returns the time that coqtop spent on each processed sentence and proof, most expensive first */
+  public getTimingReport() : thmProto.TimingReport {
+    if(!this.isStmRunning())
+      return {sentences: [], proofs: []};
+    return createTimingReport(this.stm.getSentenceTimings());
+  }
+
+  public async stopWorker(worker: string) : Promise<void> {
+    if(this.isStmRunning())
+      await this.stm.stopWorker(worker);
+  }
+
+  /** @returns the file of this document, or `null` if it is not saved to disk */
+  private getSourceFile() : string|null {
+    try {
+      return url.fileURLToPath(this.uri);
+    } catch(err) {
+      return null;
+    }
+  }
+
+  /**
+   * Finds where the identifier at `position` is declared: first within this document,
+   * then in the *.glob files of the workspace and standard library,
+   * then, if coqtop is running, by locating the library that declares it.
+   */
+  public async provideDefinition(position: Position) : Promise<vscode.Location|null> {
+    const symbols = this.document.lookupDefinition(position);
+    if(symbols.length > 0)
+      return vscode.Location.create(this.uri, symbols[0].symbol.range);
+
+    const sourceFile = this.getSourceFile();
+    if(sourceFile) {
+      const text = this.document.getText();
+      const location = await this.project.getGlobIndex().findDefinition(sourceFile, textUtil.byteOffsetOfCharacterOffset(text, this.offsetAt(position)));
+      if(location)
+        return location;
+    }
+
+    const def = this.document.getDefinitionAt(position);
+    if(!def || !this.isStmRunning())
+      return null;
+    const output = await this.stm.queryText(`Locate ${def.id.join('.')}.`, position);
+    if(!output)
+      return null;
+    for(let obj of locateParsing.parseLocate(output.map(textToString).join('\n'))) {
+      const location = await this.locateInLibrary(obj.qualid, obj.kind === "Module", position);
+      if(location)
+        return location;
+    }
+    return null;
+  }
+
+  /**
+   * Asks coqtop which library declares the fully qualified name `qualid`
+   * @returns the declaration in the source of the library
+   */
+  private async locateInLibrary(qualid: QualId, isModule: boolean, position?: Position) : Promise<vscode.Location|null> {
+    // The library is the longest prefix of the qualified name that coqtop knows to be a library
+    const start = isModule ? qualid.length : qualid.length - 1;
+    for(let len = start; len > 0; --len) {
+      const libraryOutput = await this.stm.queryText(`Locate Library ${qualid.slice(0,len).join('.')}.`, position);
+      const libraryFile = libraryOutput ? locateParsing.parseLocateLibrary(libraryOutput.map(textToString).join('\n')) : null;
+      if(libraryFile)
+        return await this.findDeclarationInLibrary(libraryFile, qualid.slice(len));
+    }
+    return null;
+  }
+
+  /**
+   * Finds the declaration of `name`, which is qualified relative to `module`, e.g. a result of `search`:
+   * first in the *.glob files, then by asking coqtop, and finally within this document
+   */
+  public async provideDefinitionOfName(module: string, name: string) : Promise<vscode.Location|null> {
+    const qualid = [...(module ? module.split('.') : []), ...name.split('.')];
+    const location = await this.project.getGlobIndex().findQualifiedDefinition(qualid);
+    if(location)
+      return location;
+    const located = this.isStmRunning() ? await this.locateInLibrary(qualid, false) : null;
+    if(located)
+      return located;
+    const symbols = this.document.lookupSymbol(name.split('.'));
+    return symbols.length > 0 ? vscode.Location.create(this.uri, symbols[0].symbol.range) : null;
+  }
+
+  /**
+   * Runs the `Search` command, where `query` holds its arguments
+   * @returns the results, or an error if coqtop rejects the query
+   */
+  public async search(query: string) : Promise<thmProto.SearchResult[]|vscode.ResponseError<void>> {
+    if(!this.isStmRunning())
+      return [];
+    try {
+      const objects = await this.stm.doSearch(searchParsing.parseSearchQuery(query));
+      return objects.map(obj => ({name: obj.qualid.join('.'), module: obj.prefix.join('.'), type: obj.object}));
+    } catch(err) {
+      if(err instanceof CallFailure)
+        return new vscode.ResponseError<void>(vscode.ErrorCodes.InvalidRequest, textToString(err.message));
+      else
+        throw err;
+    }
+  }
+
+  /**
+   * Finds the references to the identifier at `position`: within this document, as resolved by coqtop,
+   * and within the rest of the workspace, according to the *.glob files.
+   */
+  public async provideReferences(position: Position, includeDeclaration: boolean) : Promise<vscode.Location[]> {
+    const occurrences = this.isStmRunning() ? this.stm.getGlobOccurrences(position) : [];
+    const results = occurrences
+      .filter(g => includeDeclaration || g.role === "reference")
+      .map(g => vscode.Location.create(this.uri, g.range));
+
+    const sourceFile = this.getSourceFile();
+    if(!sourceFile)
+      return results;
+    const text = this.document.getText();
+    const locations = await this.project.getGlobIndex().findReferences(sourceFile, textUtil.byteOffsetOfCharacterOffset(text, this.offsetAt(position)), includeDeclaration);
+    // The *.glob file of this document may be outdated
+    if(occurrences.length > 0)
+      return [...results, ...locations.filter(l => l.uri !== this.uri)];
+    else
+      return [...results, ...locations];
+  }
+
+  /** Highlights the names within this document that refer to the same object as the name at `position` */
+  public provideDocumentHighlights(position: Position) : vscode.DocumentHighlight[] {
+    if(!this.isStmRunning())
+      return [];
+    return this.stm.getGlobOccurrences(position).map(g =>
+      vscode.DocumentHighlight.create(g.range, g.role === "definition" ? vscode.DocumentHighlightKind.Write : vscode.DocumentHighlightKind.Read));
+  }
+
+  /**
+   * Links the libraries named by `Require` commands to their sources: first to the files that coqtop
+   * has actually loaded, then to the libraries found in the load paths of the project.
+   */
+  public async provideDocumentLinks() : Promise<vscode.DocumentLink[]> {
+    const loaded = this.isStmRunning() ? Array.from(this.stm.getLoadedModules()) : [];
+    const links : vscode.DocumentLink[] = [];
+    for(let sent of this.document.getSentences()) {
+      for(let req of sent.getRequiredModules()) {
+        const loadedModule = loaded.find(m => m.getSourceFileName() && libraryMatchesRequire(m.getModuleName(), req.module, req.dirPath));
+        if(loadedModule) {
+          links.push(vscode.DocumentLink.create(req.range, loadedModule.getSourceFileName()));
+          continue;
+        }
+        const source = await this.project.getGlobIndex().findLibrarySource(req.module, req.dirPath);
+        if(source)
+          links.push(vscode.DocumentLink.create(req.range, "file://" + source));
+      }
+    }
+    return links;
+  }
+
+  /**
+   * @param libraryFile -- the compiled (*.vo) library
+   * @param id -- the name of the declaration, relative to the library
+   * @returns the declaration of `id` in the source of the library, or the start of the source if `id` cannot be found
+   */
+  private async findDeclarationInLibrary(libraryFile: string, id: QualId) : Promise<vscode.Location|null> {
+    const file = path.parse(libraryFile);
+    const sourceFile = path.join(file.dir, file.name + ".v");
+    let text: string;
+    try {
+      text = await nodeAsync.fs.readFile(sourceFile, 'utf8');
+    } catch(err) {
+      return null;
+    }
+    const uri = "file://" + sourceFile;
+    const library = new SentenceCollection({uri: uri, languageId: 'coq', version: 0, text: text});
+    const symbols = id.length > 0 ? library.lookupSymbol(id) : [];
+    if(symbols.length > 0)
+      return vscode.Location.create(uri, symbols[0].symbol.range);
+    else
+      return vscode.Location.create(uri, Range.create(0,0,0,0));
+  }
+
   public async setWrappingWidth(columns: number) {
     if(!this.isStmRunning())
       return;
@@ -918,3 +1427,34 @@ export class CoqDocument implements TextDocument {
   }
 
 }
+
+/** @param type -- the kind of object as in *.glob files */
+function globToSemanticTokenType(type: string) : thmProto.SemanticTokenType|null {
+  switch(type) {
+    case "ind": case "rec": case "corec": case "coind": case "class":
+      return thmProto.SemanticTokenType.Inductive;
+    case "constr":
+      return thmProto.SemanticTokenType.Constructor;
+    case "var": case "binder":
+      return thmProto.SemanticTokenType.Variable;
+    case "not": case "syndef":
+      return thmProto.SemanticTokenType.Notation;
+    case "mod": case "modtype": case "sec": case "lib":
+      return null;
+    default:
+      return thmProto.SemanticTokenType.Constant;
+  }
+}
+
+function toCompletionItemKind(kind: SymbolKind) : vscode.CompletionItemKind {
+  switch(kind) {
+    case SymbolKind.Class: return vscode.CompletionItemKind.Class;
+    case SymbolKind.Inductive: return vscode.CompletionItemKind.Enum;
+    case SymbolKind.Constructor: return vscode.CompletionItemKind.EnumMember;
+    case SymbolKind.Module: return vscode.CompletionItemKind.Module;
+    case SymbolKind.Section: return vscode.CompletionItemKind.Module;
+    case SymbolKind.Let: return vscode.CompletionItemKind.Variable;
+    case SymbolKind.Assumption: return vscode.CompletionItemKind.Variable;
+    default: return vscode.CompletionItemKind.Function;
+  }
+}
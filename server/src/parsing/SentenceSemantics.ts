@@ -68,7 +68,7 @@ export class Inductive implements SentenceSemantics {
 
 namespace parseAstSymbols {
   function identToSymbol(ident: parser.Identifier, kind: vscode.SymbolKind, pos: vscode.Position) : vscode.SymbolInformation {
-    return vscode.SymbolInformation.create(ident.text, vscode.SymbolKind.Variable, textUtil.rangeTranslateRelative(pos,parser.locationRangeToRange(ident.loc)));  
+    return vscode.SymbolInformation.create(ident.text, kind, textUtil.rangeTranslateRelative(pos,parser.locationRangeToRange(ident.loc)));  
   }
 
   export function definition(ast: parser.SDefinition, pos: vscode.Position) : vscode.SymbolInformation[] {
@@ -0,0 +1,81 @@
+import * as parser from './coq-parser';
+
+/** A sentence that makes the development depend on something that is not proved */
+export interface AssumptionSentence {
+  kind: "admitted" | "admit" | "axiom";
+  /** the names of the axioms, or the name of the proof that is admitted or contains `admit` */
+  name: string;
+  /** offsets of the command, after any leading whitespace */
+  start: number;
+  end: number;
+}
+
+const axiomRE = /^(?:#\[[^\]]*\]\s*)?(?:(?:Local|Global|Polymorphic|Monomorphic)\s+)*(?:Axioms?|Parameters?|Conjectures?)\s+([^]*?)\s*\.$/;
+const admitRE = /(?:^|[^\w'.])(?:admit|give_up)(?![\w'])/;
+const admitObligationsRE = /^(?:#\[[^\]]*\]\s*)?(?:(?:Local|Global)\s+)?Admit\s+Obligations(?:\s+of\s+([^\s.]+))?\s*\.$/;
+/** `Module`, `Module Type` and `Section` open a block until `End`, unless the module is defined with `:=` */
+const beginBlockRE = /^(?:(?:Local|Global)\s+)?(?:Module(\s+Type)?|Section)\s+[^]*\.$/;
+const endBlockRE = /^End\s+[^\s.]+\s*\.$/;
+
+/** @returns the names declared by the binders of `Axiom`, e.g. `a b : T` or `(a : T) (b : U)` */
+function axiomNames(binders: string) : string {
+  if(!binders.startsWith('('))
+    return binders.split(':')[0].trim();
+  const names : string[] = [];
+  const groupRE = /\(\s*([^:()]+?)\s*:/g;
+  let match : RegExpExecArray;
+  while(match = groupRE.exec(binders))
+    names.push(...match[1].split(/\s+/));
+  return names.join(' ');
+}
+
+/**
+ * Scans a script for the sentences that are not proved: `Admitted`, `Admit Obligations`, the tactics `admit` and `give_up`,
+ * and the declarations of axioms, parameters and conjectures outside of module types, where they are fields of the signature.
+ * The scan stops at the first sentence that cannot be parsed.
+ */
+export function findAssumptionSentences(text: string) : AssumptionSentence[] {
+  const results : AssumptionSentence[] = [];
+  let proof : string|null = null;
+  /** Whether each enclosing block is a module type */
+  const blocks : boolean[] = [];
+  let offset = 0;
+  while(offset < text.length) {
+    const length = parser.parseSentenceLength(text.substring(offset));
+    if(length <= 0)
+      break;
+    const sentence = text.substr(offset, length);
+    const start = offset + sentence.search(/\S|$/);
+    const end = offset + length;
+    offset = end;
+
+    let command : string;
+    try {
+      command = parser.normalizeText(sentence).trim();
+    } catch(err) {
+      break; // e.g. an unterminated comment
+    }
+    const name = parser.proofName(command);
+    const axiom = axiomRE.exec(command);
+    const block = beginBlockRE.exec(command);
+    const obligations = admitObligationsRE.exec(command);
+    if(name !== null)
+      proof = name;
+    else if(block && !/:=/.test(command))
+      blocks.push(block[1] !== undefined);
+    else if(endBlockRE.test(command))
+      blocks.pop();
+    else if(axiom) {
+      if(!blocks.includes(true))
+        results.push({kind: "axiom", name: axiomNames(axiom[1]), start: start, end: end});
+    } else if(obligations)
+      results.push({kind: "admitted", name: obligations[1] || "", start: start, end: end});
+    else if(parser.isProofEnd(command)) {
+      if(/^Admitted\b/.test(command))
+        results.push({kind: "admitted", name: proof || "", start: start, end: end});
+      proof = null;
+    } else if(admitRE.test(command))
+      results.push({kind: "admit", name: proof || "", start: start, end: end});
+  }
+  return results;
+}
@@ -125,7 +125,7 @@ export interface SSection extends SentenceBase {
 
 export interface SInductive extends SentenceBase {
   type: "inductive",
-  kind: "Inductive" | "CoInductive",
+  kind: "Inductive" | "CoInductive" | "Variant",
   bodies: InductiveBody[],
 }
 
@@ -168,7 +168,7 @@ export interface InductiveBody {
 
 export interface SAssumptions extends SentenceBase {
   type: "assumptions",
-  kind: "Axiom" | "Conjecture" | "Parameter" | "Parameters" | "Variable" | "Variables" | "Hypothesis" | "Hypotheses",
+  kind: "Axiom" | "Axioms" | "Conjecture" | "Conjectures" | "Parameter" | "Parameters" | "Variable" | "Variables" | "Hypothesis" | "Hypotheses",
   idents: Identifier[],
 }
 
@@ -0,0 +1,98 @@
+/** A `match term with` or `destruct term`/`induction term` whose cases have not been written yet */
+export interface CaseAnalysis {
+  kind: "match"|"destruct"|"induction",
+  term: string,
+  /** The offset, within the searched text, of the text to replace by the cases */
+  start: number,
+  end: number,
+}
+
+const matchRE = /\bmatch\s+([^]+?)\s+with\b/g;
+const emptyMatchRE = /^\s*(?:end\b|(?=[.)]|$))/;
+const tacticRE = /^(destruct|induction)\s+([^]+?)\s*\.$/;
+
+/**
+ * Finds the `match term with`, whose branches are missing, that contains `offset`
+ * (the branches may be an empty `end`)
+ */
+export function findMatch(text: string, offset: number) : CaseAnalysis|null {
+  matchRE.lastIndex = 0;
+  let match : RegExpExecArray;
+  while(match = matchRE.exec(text)) {
+    if(match.index > offset)
+      break;
+    const rest = emptyMatchRE.exec(text.substring(matchRE.lastIndex));
+    // Terms with `as`, `in` or `return` clauses and multiple terms are not supported
+    if(offset <= matchRE.lastIndex && rest && !/\s(?:as|in|return)\s|,/.test(match[1]))
+      return {kind: "match", term: match[1], start: match.index, end: matchRE.lastIndex + rest[0].length};
+  }
+  return null;
+}
+
+/**
+ * Parses a `destruct term.` or `induction term.` tactic, e.g. the command of a sentence
+ * @returns `null` if `command` is another tactic or already names the arguments of the cases
+ */
+export function parseCaseTactic(command: string) : CaseAnalysis|null {
+  const match = tacticRE.exec(command);
+  if(!match || /\s(?:as|eqn|using|in)\b|,/.test(match[2]))
+    return null;
+  return {kind: match[1] as "destruct"|"induction", term: match[2], start: 0, end: command.length};
+}
+
+/**
+ * Parses the output of `Check term.`, e.g.
+ *   "f x\n     : list nat"
+ * @returns the type of `term`, or `null` if the output is not recognized
+ */
+export function parseCheckedType(output: string) : string|null {
+  const match = /\n\s*:\s*([^]*)$/.exec(output.trim());
+  return match ? match[1].replace(/\s+/g, ' ') : null;
+}
+
+/** @returns the type of the binder `(name : type)` in `text`, e.g. for the arguments of a definition */
+export function findBinderType(text: string, name: string) : string|null {
+  const binderRE = /\(\s*([a-zA-Z_][a-zA-Z0-9_'\s]*?)\s*:\s*([^()]*(?:\([^()]*\)[^()]*)*)\)/g;
+  let match : RegExpExecArray;
+  while(match = binderRE.exec(text)) {
+    if(match[1].split(/\s+/).includes(name))
+      return match[2].trim();
+  }
+  return null;
+}
+
+/** @returns the name of the inductive type of the values of `type`, e.g. "list" for "list (option nat)" */
+export function inductiveOfType(type: string) : string|null {
+  const match = /^\(*\s*@?([a-zA-Z_][a-zA-Z0-9_']*(?:\.[a-zA-Z_][a-zA-Z0-9_']*)*)/.exec(type.trim());
+  return match && !/^(?:forall|fun|exists)$/.test(match[1]) ? match[1] : null;
+}
+
+/**
+ * @param cases -- as returned by `MkCases`: each case is the name of a constructor followed by the names of its arguments
+ * @returns a `match` with one branch per case
+ */
+export function matchSkeleton(term: string, cases: string[][], indent: string) : string {
+  const branches = cases.map(c => `${indent}| ${c.join(' ')} => _\n`);
+  return `match ${term} with\n${branches.join('')}${indent}end`;
+}
+
+/**
+ * @param cases -- as returned by `MkCases`: each case is the name of a constructor followed by the names of its arguments
+ * @returns the tactic, naming the arguments of the cases, followed by one bullet per generated goal
+ */
+export function tacticSkeleton(analysis: CaseAnalysis, cases: string[][], bullet: string, indent: string) : string {
+  const pattern = cases.some(c => c.length > 1) ? ` as [${cases.map(c => c.slice(1).join(' ')).join(' | ')}]` : "";
+  const bullets = cases.map(c => `\n${indent}${bullet} (* ${c.join(' ')} *)`);
+  return `${analysis.kind} ${analysis.term}${pattern}.${bullets.join('')}`;
+}
+
+/** @returns the bullet for the goals generated within a goal that is focused by `bullet` */
+export function nextBullet(bullet: string|null) : string {
+  if(!bullet)
+    return "-";
+  switch(bullet[0]) {
+    case "-": return "+".repeat(bullet.length);
+    case "+": return "*".repeat(bullet.length);
+    default: return "-".repeat(bullet.length + 1);
+  }
+}
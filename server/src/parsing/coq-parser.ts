@@ -15,6 +15,10 @@ export const coqGrammar = String.raw `
   function errorUnclosedBracket(lb, end) {
     error("unterminated bracket '" + lb.text + "'", {start: lb.loc.start, end: end})
   } 
+
+  function moduleType(qualid) {
+    return {qualid: qualid.trim(), ignoreInlineDirective: false, bindings: [], withBindings: []}
+  }
 }
 
 Start = TrySentence
@@ -38,10 +42,15 @@ NoMoreSentences
   = _ !. { return {type: "EOF", text: text(), rest: ""} }
 
 Sentence
-  = _ sent: SAny {
+  = _ sent: (SDeclaration / SAny) {
     return Object.assign(sent, {text: text()})
   }
 
+SDeclaration
+  = SRequire / SSection / SEnd
+  / SModuleTypeBind / SModuleType / SModuleBind / SModule
+  / SInductive / SAssumptions / SLtacDef / SDefinition
+
 Bullet
   = ((Integer / "[" Identifier "]") _ ":" _)? "{"
   / "}"
@@ -54,9 +63,131 @@ VernacControl
 
 SAny
   = (VernacControl _)? Bullet
-  / ("lp:" QuotationCurly _ / [^".] _ / String _ / ".." _ / "." !IsEndOfSentence)+ EndOfSentence
+  / SentenceToken+ EndOfSentence
   {return {type: "any"}}
 
+SentenceToken
+  = "lp:" QuotationCurly _ / [^".] _ / String _ / ".." _ / "." !IsEndOfSentence
+
+// The declarations below only recognize the parts of a sentence that introduce names;
+// anything they do not understand is left for SAny, so they never change where a sentence ends.
+
+SRequire
+  = dirPath:("From" __ d:QualId __ {return d})? "Require" __ intro:(i:("Import" / "Export") __ {return i})? modules:(m:QualId _ {return m})+ EndOfSentence
+  { return {type: "require", intro: intro, modules: modules, dirPath: dirPath} }
+
+SSection
+  = "Section" __ ident:Identifier _ EndOfSentence
+  { return {type: "section", ident: ident} }
+
+SEnd
+  = "End" __ ident:Identifier _ EndOfSentence
+  { return {type: "end", ident: ident} }
+
+SModuleTypeBind
+  = "Module" __ "Type" __ ident:Identifier _ bindings:ModuleBinding* moduleTypes:ModuleTypeAnnotation* ":=" _ expr:$SentenceToken+ EndOfSentence
+  { return {type: "module-type-bind", ident: ident, bindings: bindings, expr: moduleType(expr), moduleTypes: moduleTypes} }
+
+SModuleType
+  = "Module" __ "Type" __ ident:Identifier _ bindings:ModuleBinding* EndOfSentence
+  { return {type: "module-type", ident: ident, bindings: bindings} }
+
+SModuleBind
+  = "Module" __ ModuleIntro? !("Type" __) ident:Identifier _ bindings:ModuleBinding* moduleTypes:ModuleTypeAnnotation* ":=" _ expr:$SentenceToken+ EndOfSentence
+  { return {type: "module-bind", ident: ident, bindings: bindings, expr: {qualid: expr.trim(), ignoreInlineDirective: false}, moduleTypes: moduleTypes} }
+
+SModule
+  = "Module" __ intro:ModuleIntro? !("Type" __) ident:Identifier _ bindings:ModuleBinding* moduleTypes:ModuleTypeAnnotation* EndOfSentence
+  { return {type: "module", intro: intro, ident: ident, bindings: bindings, moduleTypes: moduleTypes} }
+
+ModuleIntro
+  = intro:("Import" / "Export") __ {return intro}
+
+ModuleBinding
+  = "(" _ intro:ModuleIntro? idents:(i:Identifier _ {return i})+ ":" !"=" _ type:$BalancedTerm ")" _
+  { return {intro: intro, idents: idents, moduleType: moduleType(type)} }
+
+ModuleTypeAnnotation
+  = ("<:" / !":=" ":") _ type:$(!(":=" / "<:") SentenceToken)+
+  { return moduleType(type) }
+
+SInductive
+  = DeclarationAttributes kind:("CoInductive" / "Inductive" / "Variant") __ first:InductiveBody rest:("with" __ b:InductiveBody {return b})* ("where" __ SentenceToken*)? EndOfSentence
+  { return {type: "inductive", kind: kind, bodies: [first].concat(rest)} }
+
+InductiveBody
+  = ident:Identifier _ binders:Binder* termType:(":" !"=" _ t:$(!":=" ConstructorTermToken)* {return t.trim()})? ":=" _ ("|" _)? constructors:InductiveConstructors
+  { return {ident: ident, termType: termType, binders: binders, constructors: constructors} }
+
+InductiveConstructors
+  = first:InductiveConstructor rest:("|" _ c:InductiveConstructor {return c})*
+  { return [first].concat(rest) }
+  / "" { return [] }
+
+InductiveConstructor
+  = !InductiveKeyword ident:Identifier _ binders:Binder* term:(":" !"=" _ t:$ConstructorTermToken* {return t.trim()})?
+  { return {ident: ident, binders: binders, term: term} }
+
+InductiveKeyword
+  = ("with" / "where") ![a-zA-Z0-9_']
+
+ConstructorTermToken
+  = BracketedTerm
+  / !InductiveKeyword Identifier _
+  / !("|" / InductiveKeyword) SentenceToken
+
+Binder
+  = "(" _ names:(n:Identifier _ {return n.text})+ ":" !"=" _ type:$BalancedTerm ")" _
+  { return {binderType: "name-list", names: names, type: type.trim()} }
+  / "{" _ names:(n:Identifier _ {return n.text})+ type:(":" _ t:$BalancedTerm {return t.trim()})? "}" _
+  { return {binderType: "name-list", names: names, type: type} }
+  / !InductiveKeyword name:Identifier _
+  { return {binderType: "name", name: name.text} }
+
+BracketedTerm
+  = "(" _ BalancedTerm ")" _
+  / "{" _ BalancedTerm "}" _
+  / "[" _ BalancedTerm "]" _
+
+BalancedTerm
+  = (BracketedTerm / ![)}\]] SentenceToken)*
+
+SAssumptions
+  = DeclarationAttributes kind:AssumptionKind __ idents:AssumptionIdents EndOfSentence
+  { return {type: "assumptions", kind: kind, idents: idents} }
+
+AssumptionKind
+  = "Axioms" / "Axiom" / "Conjectures" / "Conjecture" / "Parameters" / "Parameter"
+  / "Variables" / "Variable" / "Hypotheses" / "Hypothesis"
+
+AssumptionIdents
+  = groups:("(" _ ids:(i:Identifier _ {return i})+ ":" !"=" _ BalancedTerm ")" _ {return ids})+
+  { return Array.prototype.concat.apply([], groups) }
+  / ids:(i:Identifier _ {return i})+ ":" !"=" SentenceToken*
+  { return ids }
+
+SLtacDef
+  = DeclarationAttributes "Ltac" __ ident:Identifier ltac:$SentenceToken* EndOfSentence
+  { return {type: "ltacdef", ident: ident, ltac: ltac.trim()} }
+
+SDefinition
+  = DeclarationAttributes kind:DefinitionKind __ ident:Identifier stmt:$SentenceToken* EndOfSentence
+  { return {type: "definition", kind: kind, ident: ident, stmt: stmt.trim()} }
+
+DefinitionKind
+  = "Definition" / "Fixpoint" / "CoFixpoint" / "Let" / "Function"
+  / "Theorem" / "Lemma" / "Remark" / "Fact" / "Corollary" / "Proposition" / "Example"
+  / "Instance" / "Class" / "Record" / "Structure"
+
+DeclarationAttributes
+  = ("#[" (!"]" SentenceToken)* "]" _)? (DeclarationModifier __)*
+
+DeclarationModifier
+  = "Local" / "Global" / "Program" / "Polymorphic" / "Monomorphic" / "Cumulative" / "NonCumulative" / "Private"
+
+QualId
+  = $(Identifier ("." Identifier)*)
+
 Identifier
   = (([a-zA-Z_] / UnicodeLetter) ([a-zA-Z0-9_'] / UnicodeLetter / UnicodeIdPart)*)
   { return { text: text() , loc: location() }}
@@ -463,6 +594,45 @@ export function normalizeText(str: string) : string {
   return removeExcessWhitespace(removeComments(str));
 }
 
+/**
+ * @returns the outermost comments of `text`, which may be nested, and the strings outside of comments, in order;
+ * an unterminated comment extends to the end of `text`
+ */
+export function findCommentsAndStrings(text: string) : {kind: "comment"|"string", start: number, end: number, unterminated?: boolean}[] {
+  const results : {kind: "comment"|"string", start: number, end: number, unterminated?: boolean}[] = [];
+  const tokenRE = /\(\*|\*\)|"(?:[^"]|"")*"/g;
+  let depth = 0;
+  let start = 0;
+  let match : RegExpExecArray;
+  while(match = tokenRE.exec(text)) {
+    if(match[0] === '(*') {
+      if(depth++ === 0)
+        start = match.index;
+    } else if(match[0] === '*)') {
+      if(depth > 0 && --depth === 0)
+        results.push({kind: "comment", start: start, end: tokenRE.lastIndex});
+    } else if(depth === 0)
+      results.push({kind: "string", start: match.index, end: tokenRE.lastIndex});
+  }
+  if(depth > 0)
+    results.push({kind: "comment", start: start, end: text.length, unterminated: true});
+  return results;
+}
+
+/** @returns the spans of `text` that are neither in comments nor in strings */
+export function findCode(text: string) : {start: number, end: number}[] {
+  const results : {start: number, end: number}[] = [];
+  let start = 0;
+  for(let skipped of findCommentsAndStrings(text)) {
+    if(skipped.start > start)
+      results.push({start: start, end: skipped.start});
+    start = skipped.end;
+  }
+  if(start < text.length)
+    results.push({start: start, end: text.length});
+  return results;
+}
+
 // /**
 //  * Determines whether an edit should affect the validity of a sentence
 //  * @param documentText: the Coq document or a sentence
@@ -502,6 +672,27 @@ export function isPassiveDifference(cmd1: string, cmd2: string) : boolean {
   }
 }
 
+const proofStartRE = /^(?:#\[[^\]]*\]\s*)?(?:(?:Local|Global|Polymorphic|Monomorphic|Program)\s+)*(Theorem|Lemma|Fact|Remark|Corollary|Proposition|Property|Example|Goal|Instance|Definition|Fixpoint|CoFixpoint|Let|Next Obligation)\b\s*([a-zA-Z_][a-zA-Z0-9_']*)?/;
+const proofEndRE = /^(?:Qed|Defined|Admitted|Abort|Save)\b/;
+
+/**
+ * @param command a normalized command (see `normalizeText`)
+ * @returns the name of the proof started by `command` (e.g. the name of a lemma, or `Goal` if it has none), or `null` if it does not start a proof
+ */
+export function proofName(command: string) : string|null {
+  const match = proofStartRE.exec(command);
+  if(!match || command.includes(':='))
+    return null;
+  else if(match[1] === 'Goal' || match[1] === 'Next Obligation' || !match[2])
+    return match[1];
+  else
+    return match[2];
+}
+
+/** @param command a normalized command (see `normalizeText`) */
+export function isProofEnd(command: string) : boolean {
+  return proofEndRE.test(command);
+}
 
 export enum SentenceRangeContainment {
   /** The range is contained by the sentence (range may be empty at the beginning, but not at the end and empty). Adjust sentence; check for invalidation */
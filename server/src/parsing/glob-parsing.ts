@@ -0,0 +1,74 @@
+import {QualId} from '../sentence-model/Scopes';
+
+/** An object declared by the library, e.g. "def 1012:1014 <> foo" */
+export interface GlobDefinition {
+  /** e.g. "def", "ind", "constr", "rec", "mod", "sec", "var", "binder" */
+  kind: string,
+  /** byte offset of the first character of the name */
+  start: number,
+  /** byte offset of the last character of the name */
+  stop: number,
+  /** the modules, within the library, that contain the object */
+  path: QualId,
+  name: string,
+}
+
+/** A reference to an object, e.g. "R2042:2044 Coq.Init.Datatypes <> nat ind" */
+export interface GlobReference {
+  /** byte offset of the first character of the reference */
+  start: number,
+  /** byte offset of the last character of the reference */
+  stop: number,
+  /** the library that declares the object */
+  library: string,
+  /** the modules, within the library, that contain the object */
+  path: QualId,
+  name: string,
+  kind: string,
+}
+
+/** The contents of a *.glob file, as written by coqc next to each *.vo file */
+export interface GlobFile {
+  digest: string|null,
+  /** the logical name of the library */
+  library: string,
+  definitions: GlobDefinition[],
+  references: GlobReference[],
+}
+
+function parsePath(path: string) : QualId {
+  return path === '<>' ? [] : path.split('.');
+}
+
+const definitionRE = /^(\S+) (\d+):(\d+) (\S+) (.+)$/;
+const referenceRE = /^R(\d+):(\d+) (\S+) (\S+) (.+) (\S+)$/;
+
+/** Parses a *.glob file; unrecognized lines are ignored */
+export function parseGlob(text: string) : GlobFile {
+  const result : GlobFile = {digest: null, library: "", definitions: [], references: []};
+  for(let line of text.split(/\r?\n/)) {
+    let match : RegExpExecArray;
+    if(line.startsWith("DIGEST "))
+      result.digest = line.substring(7).trim();
+    else if(line.startsWith("F"))
+      result.library = line.substring(1).trim();
+    else if(match = referenceRE.exec(line))
+      result.references.push({
+        start: +match[1],
+        stop: +match[2],
+        library: match[3],
+        path: parsePath(match[4]),
+        name: match[5],
+        kind: match[6],
+      });
+    else if(match = definitionRE.exec(line))
+      result.definitions.push({
+        kind: match[1],
+        start: +match[2],
+        stop: +match[3],
+        path: parsePath(match[4]),
+        name: match[5],
+      });
+  }
+  return result;
+}
@@ -0,0 +1,40 @@
+import {QualId} from '../sentence-model/Scopes';
+
+/** An object reported by `Locate qualid.` */
+export interface LocatedObject {
+  kind: "Constant"|"Inductive"|"Constructor"|"Ltac"|"Module"|"Module Type"|"Syntactic Definition",
+  /** The fully qualified name of the object */
+  qualid: QualId,
+}
+
+const locatedObjectRE = /^(Constant|Inductive|Constructor|Ltac|Module Type|Module|Syntactic Definition)\s+([^\s()]+)/gm;
+
+/**
+ * Parses the output of `Locate qualid.`, e.g.
+ *   "Constant Coq.Init.Nat.add\n  (shorter name to refer to it in current context is Nat.add)"
+ * Notations and unknown objects are ignored.
+ */
+export function parseLocate(output: string) : LocatedObject[] {
+  const results : LocatedObject[] = [];
+  locatedObjectRE.lastIndex = 0;
+  let match : RegExpExecArray;
+  while(match = locatedObjectRE.exec(output)) {
+    results.push({
+      kind: match[1] as LocatedObject["kind"],
+      qualid: match[2].split('.'),
+    });
+  }
+  return results;
+}
+
+const libraryFileRE = /\bfile\s+(.*\.vo)\s*$/m;
+
+/**
+ * Parses the output of `Locate Library dirpath.`, e.g.
+ *   "Coq.Init.Datatypes has been loaded from file /usr/lib/coq/theories/Init/Datatypes.vo"
+ * @returns the *.vo file of the library, or `null` if it is not a library
+ */
+export function parseLocateLibrary(output: string) : string|null {
+  const match = libraryFileRE.exec(output);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,84 @@
+import {SearchConstraint} from '../coqtop/coq-proto';
+
+/** A result of `Search`, `Check`, or `About` */
+export interface NamedType {
+  name: string,
+  type: string,
+}
+
+const entryRE = /^([^\s:]+)\s*:\s*([^]*)$/;
+
+/**
+ * Parses the output of `Search`; each result is of the form "name: type",
+ * where the type may continue on indented lines.
+ * Results may be output as separate messages or within a single message.
+ */
+export function parseSearch(output: string[]) : NamedType[] {
+  const results : NamedType[] = [];
+  for(let entry of output.join('\n').split(/\n(?=\S)/)) {
+    const match = entryRE.exec(entry.trim());
+    if(match)
+      results.push({name: match[1], type: match[2].replace(/\s+/g, ' ')});
+  }
+  return results;
+}
+
+/**
+ * Parses the output of `Check qualid.`, e.g.
+ *   "Nat.add\n     : nat -> nat -> nat"
+ * @returns the type of `qualid`, or `null` if the output is not recognized
+ */
+export function parseCheck(output: string) : string|null {
+  const match = entryRE.exec(output.trim());
+  return match ? match[2].replace(/\s+/g, ' ') : null;
+}
+
+/** Splits `query` at whitespace that is outside of parentheses and strings */
+function splitSearchTerms(query: string) : string[] {
+  const terms : string[] = [];
+  const tokenRE = /"(?:[^"]|"")*"|[()]|\s+|[^\s()"]+/g;
+  let depth = 0;
+  let term = '';
+  let match : RegExpExecArray;
+  while(match = tokenRE.exec(query)) {
+    if(match[0] === '(')
+      ++depth;
+    else if(match[0] === ')')
+      depth = Math.max(0, depth-1);
+    if(depth === 0 && /^\s/.test(match[0])) {
+      if(term)
+        terms.push(term);
+      term = '';
+    } else
+      term += match[0];
+  }
+  if(term)
+    terms.push(term);
+  return terms;
+}
+
+/**
+ * Parses the arguments of a `Search` command into the constraints of the `Search` call, e.g.
+ *   `"comm" (_ + _) -Nat.sub inside Arith outside Reals`
+ * Strings constrain the names of the results, other terms their types, and a leading `-` inverts a constraint.
+ */
+export function parseSearchQuery(query: string) : SearchConstraint[] {
+  const constraints : SearchConstraint[] = [];
+  let modules : boolean|null = null; // whether the terms are modules to search inside or outside of
+  for(let term of splitSearchTerms(query.trim().replace(/\.$/, ''))) {
+    if(term === 'inside' || term === 'outside')
+      modules = term === 'inside';
+    else if(modules !== null)
+      constraints.push({kind: "in_module", module: term.split('.'), positive: modules});
+    else {
+      const positive = !term.startsWith('-');
+      const pattern = positive ? term : term.substring(1);
+      if(/^"[^]*"$/.test(pattern))
+        constraints.push({kind: "name_pattern", pattern: pattern.slice(1,-1).replace(/""/g, '"'), positive: positive});
+      else
+        constraints.push({kind: "subtype_pattern", pattern: pattern, positive: positive});
+    }
+  }
+  constraints.push({kind: "include_blacklist", positive: true});
+  return constraints;
+}
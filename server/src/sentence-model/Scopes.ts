@@ -330,43 +330,16 @@ export class ScopeDeclaration<S extends {prev: S, next: S, getScope() : ScopeDec
     this.exportSymbols.push(s);
   }
 
-  private lookupSymbolInList(id: QualId, symbols: Symbol[]) : SymbolInformation<S>|null {
-    const matchedId = matchQualId(id.slice(0,id.length-1), this.myId);
-    if(!matchedId)
-      return null;
-    let assumedPrefix : QualId = [];
-    if(matchedId.which===1)
-      assumedPrefix = matchedId.prefix;
-
-    for(let s of symbols) {
-      if(id[id.length-1] === s.identifier)
-        return {
-          symbol: s,
-          assumedPrefix: assumedPrefix,
-          id: matchedId.id.concat(s.identifier),
-          source: this.source,
-        }
-    }
-    return null;
-  }
-
-  private lookupHere(id: QualId, flags: ScopeFlags) : SymbolInformation<S>|null {
-    if(flags & ScopeFlags.Private) {
-      const result = this.lookupSymbolInList(id, this.privateSymbols);
-      if(result)
-        return result;
-    }
-    if(flags & ScopeFlags.Local) {
-      const result = this.lookupSymbolInList(id, this.localSymbols);
-      if(result)
-        return result;
-    }
-    if(flags & ScopeFlags.Export) {
-      const result = this.lookupSymbolInList(id, this.exportSymbols);
-      if(result)
-        return result;
-    }
-    return null;
+  /** Lists the symbols declared by this sentence that are selected by `flags` */
+  private getSymbols(flags: ScopeFlags) : {symbol: Symbol, local: boolean}[] {
+    const symbols : {symbol: Symbol, local: boolean}[] = [];
+    if(flags & ScopeFlags.Private)
+      symbols.push(...this.privateSymbols.map(s => ({symbol: s, local: true})));
+    if(flags & ScopeFlags.Local)
+      symbols.push(...this.localSymbols.map(s => ({symbol: s, local: true})));
+    if(flags & ScopeFlags.Export)
+      symbols.push(...this.exportSymbols.map(s => ({symbol: s, local: false})));
+    return symbols;
   }
 
   private getPreviousSentence() : ScopeDeclaration<S>|null {
@@ -376,6 +349,20 @@ export class ScopeDeclaration<S extends {prev: S, next: S, getScope() : ScopeDec
       return null;
   }
 
+  private getNextSentence() : ScopeDeclaration<S>|null {
+    if(this.source.next)
+      return this.source.next.getScope()
+    else
+      return null;
+  }
+
+  private getFirstSentence() : ScopeDeclaration<S> {
+    let first : ScopeDeclaration<S> = this;
+    for(let scope = this.getPreviousSentence(); scope; scope = scope.getPreviousSentence())
+      first = scope;
+    return first;
+  }
+
   public isBegin(name?: string) : this is ScopeDeclaration<S>&{node: {kind:"begin",name:string,exports:boolean}} {
     return (this.node && this.node.kind==="begin" && (!name || name===this.node.name)) ? true : false
   }
@@ -400,96 +387,148 @@ export class ScopeDeclaration<S extends {prev: S, next: S, getScope() : ScopeDec
     return null;
   }
 
+  /** @returns the qualifications under which the symbols of this sentence can be referred to from the top of the document */
   public getPrefixes() : QualId[] {
-    let prefixes : QualId[] = [];
+    let prefixes : QualId[] = [[]];
     let scope = this.getParentScope();
     while(scope) {
-      if(scope.isBegin() && scope.node.exports)
+      // Sections do not qualify their contents
+      if(scope.myId.length > 0 && scope.isBegin() && scope.node.exports)
         prefixes = [...prefixes, ...prefixes.map((p) => [...scope.myId, ...p])]
-      else
+      else if(scope.myId.length > 0)
         prefixes = prefixes.map((p) => [...scope.myId, ...p]);
       scope = scope.getParentScope();
     }
-    if(prefixes.length === 0)
-      return [[]];
-    else
-      return prefixes;
+    return prefixes;
+  }
+
+  /**
+   * Closes the innermost open scope: its symbols become visible in its parent,
+   * qualified by the module name unless the module is exported.
+   * Local symbols (section variables, `Let`) are discarded when their section ends.
+   */
+  private static closeScope<S extends {prev: S, next: S, getScope() : ScopeDeclaration<S>|null}>(closed: OpenScope<S>, parent: OpenScope<S>) {
+    const name = closed.scope.myId;
+    const exports = closed.scope.isBegin() && closed.scope.node.exports;
+    for(let s of closed.symbols) {
+      if(name.length === 0 && s.local)
+        continue;
+      else if(name.length === 0)
+        parent.symbols.push(s);
+      else
+        parent.symbols.push({
+          ...s,
+          path: [...name, ...s.path],
+          qualifiers: exports
+            ? [...s.qualifiers, ...s.qualifiers.map(q => [...name, ...q])]
+            : s.qualifiers.map(q => [...name, ...q]),
+        });
+    }
   }
 
-  private resolveSymbol(s: SymbolInformation<S>|null, idPrefixes: QualId[]) : SymbolInformation<S>|null {
-    if(!s)
-      return null;
-    const myPrefixes = this.getPrefixes();
-    const prefix = myPrefixes.find(p1 => idPrefixes.some(p2 => qualIdEqual(p1,p2)));
-    if(prefix) {
-      s.assumedPrefix = [];
-      s.id = [...prefix, ...s.id];
-      return s;
-    } else
-      return null;
+  /** @returns the scopes that are open at this sentence, outermost first, with the symbols visible in each */
+  private getOpenScopes(flags: ScopeFlags) : OpenScope<S>[] {
+    const open : OpenScope<S>[] = [{scope: null, symbols: []}];
+    const declare = (scope: ScopeDeclaration<S>, flags: ScopeFlags) => {
+      open[open.length-1].symbols.push(...scope.getSymbols(flags).map(s =>
+        ({...s, source: scope.source, path: [], qualifiers: [[]]})));
+    }
 
-    // const fullId = resolveQualId([...prefixes, s.id[s.id.length-1]], [...s.assumedPrefix, ...s.id]);
-    // if(fullId) {
-    //   s.assumedPrefix = [];
-    //   s.id = fullId;
-    //   return s;
-    // } else
-    //   return null
-  }
-
-  private resolveId(id: QualId, idPrefixes: QualId[], flags: ScopeFlags) : SymbolInformation<S>|null {
-    return this.resolveSymbol(this.lookupHere(id, flags), idPrefixes);
-  }
-
-  // public lookup(id: QualId, flags: ScopeFlags) : SymbolInformation<S>|null {
-  //   let scope : ScopeDeclaration<S> = this;
-  //   const results: SymbolInformation<S>[] = [];
-  //   const flagStack : ScopeFlags[] = [];
-  //   while(scope) {
-  //     const result = scope.lookupHere(id,flags);
-  //     if(result) {
-  //       results.push(result);
-  //       scope = scope.getParentScope();
-  //     }
-  //     // Only check the internals of the first declaration
-  //     flags &= ~ScopeFlags.Private;
-
-  //     if(scope.isEnd()) {
-  //       flagStack.push(flags);
-  //       flags &= ~ScopeFlags.Local;
-  //     } else if(scope.isBegin() && flagStack.length > 0)
-  //       flags = flagStack.pop();
-  //     scope = scope.getPreviousSentence();
-  //   }
-
-  //   return null;
-  // }
+    // Only this sentence's private symbols are visible
+    for(let scope = this.getFirstSentence(); scope && scope !== this; scope = scope.getNextSentence()) {
+      declare(scope, flags & ~ScopeFlags.Private);
+      if(scope.isBegin())
+        open.push({scope: scope, symbols: []});
+      else if(scope.isEnd()) {
+        const name = scope.node.name;
+        const idx = open.findIndex((o, idx) => idx > 0 && o.scope.isBegin(name));
+        while(idx > 0 && open.length > idx)
+          ScopeDeclaration.closeScope(open.pop(), open[open.length-1]);
+      }
+    }
+    declare(this, flags);
+    return open;
+  }
 
+  /**
+   * Finds the declarations that `id` may refer to from this sentence, innermost and most recent first.
+   * Symbols declared inside of a closed module must be qualified by the module name, unless the module was imported or exported.
+   */
   public lookup(id: QualId, flags: ScopeFlags) : SymbolInformation<S>[] {
-    let idPrefixes = this.getPrefixes();
-    let results : SymbolInformation<S>[] = [];
-    let scope : ScopeDeclaration<S> = this;
-    const flagStack : ScopeFlags[] = [];
-    while(scope) {
-      const result = scope.resolveId(id,idPrefixes,flags);
-      if(result)
-        results.push(result);
-      // Only check the internals of the first declaration
-      flags &= ~ScopeFlags.Private;
-
-      if(scope.isEnd()) {
-        flagStack.push(flags);
-        flags &= ~ScopeFlags.Local;
-      } else if(scope.isBegin() && flagStack.length > 0)
-        flags = flagStack.pop();
-      scope = scope.getPreviousSentence();
+    const open = this.getOpenScopes(flags);
+    const ident = id[id.length-1];
+    const qualifier = id.slice(0, id.length-1);
+    const results : SymbolInformation<S>[] = [];
+    for(let idx = open.length-1; idx >= 0; --idx) {
+      // The names of the enclosing modules may optionally qualify the id
+      const openModules = Array.prototype.concat(...open.slice(1,idx+1).map(o => o.scope.myId)) as QualId;
+      const symbols = open[idx].symbols;
+      for(let sIdx = symbols.length-1; sIdx >= 0; --sIdx) {
+        const s = symbols[sIdx];
+        if(s.symbol.identifier !== ident)
+          continue;
+        const matches = s.qualifiers.some(q =>
+          qualifier.length >= q.length && qualIdEqual(qualifier.slice(qualifier.length-q.length), q)
+          && qualIdEqual(qualifier.slice(0, qualifier.length-q.length), openModules.slice(openModules.length - (qualifier.length-q.length))));
+        if(matches)
+          results.push({
+            symbol: s.symbol,
+            source: s.source,
+            id: [...openModules, ...s.path, ident],
+            assumedPrefix: [],
+          });
+      }
     }
+    return results;
+  }
 
+  /**
+   * Lists the declarations that can be referred to from this sentence, innermost and most recent first.
+   * Each `id` is the shortest name that refers to the declaration and is not shadowed by a later one;
+   * declarations that are completely shadowed are omitted.
+   */
+  public getVisibleSymbols(flags: ScopeFlags) : SymbolInformation<S>[] {
+    const open = this.getOpenScopes(flags);
+    const seen = new Set<string>();
+    const results : SymbolInformation<S>[] = [];
+    for(let idx = open.length-1; idx >= 0; --idx) {
+      const symbols = open[idx].symbols;
+      for(let sIdx = symbols.length-1; sIdx >= 0; --sIdx) {
+        const s = symbols[sIdx];
+        const id = s.qualifiers
+          .map(q => [...q, s.symbol.identifier])
+          .sort((x,y) => x.length - y.length)
+          .find(id => !seen.has(id.join('.')));
+        if(!id)
+          continue;
+        seen.add(id.join('.'));
+        results.push({symbol: s.symbol, source: s.source, id: id, assumedPrefix: []});
+      }
+    }
     return results;
   }
 
 }
 
+/** A symbol that is visible within an open scope */
+interface VisibleSymbol<S> {
+  symbol: Symbol,
+  source: S,
+  /** whether the symbol is discarded at the end of its section */
+  local: boolean,
+  /** the modules, w.r.t. the open scope, that contain the symbol */
+  path: QualId,
+  /** the qualifications, w.r.t. the open scope, that refer to the symbol */
+  qualifiers: QualId[],
+}
+
+/** A Section or Module that has not been ended (yet) */
+interface OpenScope<S extends {prev: S, next: S, getScope() : ScopeDeclaration<S>|null}> {
+  /** `null` for the top of the document */
+  scope: ScopeDeclaration<S>|null,
+  symbols: VisibleSymbol<S>[],
+}
+
 
 namespace parseAstSymbols {
   function identToSymbol(ident: ast.Identifier, kind: SymbolKind, pos: vscode.Position) : Symbol {
@@ -502,7 +541,10 @@ namespace parseAstSymbols {
   
   export function definition<S extends {prev: S, next: S, getScope() : ScopeDeclaration<S>|null}>(ast: ast.SDefinition, sent: S, pos: vscode.Position) : ScopeDeclaration<S> {
     const result = new ScopeDeclaration(sent, [], null);
-    result.addExportSymbol(identToSymbol(ast.ident, SymbolKind.Definition, pos));
+    if(ast.kind === "Let")
+      result.addLocalSymbol(identToSymbol(ast.ident, SymbolKind.Let, pos));
+    else
+      result.addExportSymbol(identToSymbol(ast.ident, SymbolKind.Definition, pos));
     return result;
   }
   export function inductive<S extends {prev: S, next: S, getScope() : ScopeDeclaration<S>|null}>(ast: ast.SInductive, sent: S, pos: vscode.Position) : ScopeDeclaration<S> {
@@ -532,12 +574,15 @@ namespace parseAstSymbols {
     return result;
   }
   export function module<S extends {prev: S, next: S, getScope() : ScopeDeclaration<S>|null}>(ast: ast.SModule, sent: S, pos: vscode.Position) : ScopeDeclaration<S> {
-    const result = new ScopeDeclaration(sent, [ast.ident.text], {kind: "begin", name: ast.ident.text, exports: ast.intro==="Export"});
+    const result = new ScopeDeclaration(sent, [ast.ident.text], {kind: "begin", name: ast.ident.text, exports: ast.intro!==null});
     result.addExportSymbol(identToSymbol(ast.ident, SymbolKind.Module, pos));
     //  [ ast.ident, ...Array.prototype.concat(...ast.bindings.map((b) => b.idents)) ]
     //   .map((id) => identToSymbol(id, vscode.SymbolKind.Module, pos))
     return result;
   }
+  export function end<S extends {prev: S, next: S, getScope() : ScopeDeclaration<S>|null}>(ast: ast.SEnd, sent: S, pos: vscode.Position) : ScopeDeclaration<S> {
+    return new ScopeDeclaration(sent, [], {kind: "end", name: ast.ident.text});
+  }
   export function moduleType<S extends {prev: S, next: S, getScope() : ScopeDeclaration<S>|null}>(ast: ast.SModuleType, sent: S, pos: vscode.Position) : ScopeDeclaration<S> {
     const result = new ScopeDeclaration(sent, [ast.ident.text], {kind: "begin", name: ast.ident.text, exports: false});
     result.addExportSymbol(identToSymbol(ast.ident, SymbolKind.Module, pos));
@@ -566,6 +611,7 @@ export function parseAstForScopeDeclarations<S extends {prev: S, next: S, getSco
     case "ltacdef": return parseAstSymbols.ltacDef(ast,sent,pos);
     case "section": return parseAstSymbols.section(ast,sent,pos);
     case "module": return parseAstSymbols.module(ast,sent,pos);
+    case "end": return parseAstSymbols.end(ast,sent,pos);
     case "module-bind": return parseAstSymbols.moduleBind(ast,sent,pos);
     case "module-type": return parseAstSymbols.moduleType(ast,sent,pos);
     case "module-type-bind": return parseAstSymbols.moduleTypeBind(ast,sent,pos);
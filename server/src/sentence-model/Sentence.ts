@@ -21,6 +21,7 @@ export class Sentence {
   public next: Sentence|null = null;
   private scopeDeclaration: ScopeDeclaration<Sentence>|null = null;
   private symbols: vscode.SymbolInformation[] = [];
+  private require: {modules: string[], dirPath: string|null}|null = null;
 
   public constructor(
     private text: string,
@@ -31,6 +32,8 @@ export class Sentence {
   ) {
     this.scopeDeclaration = parseAstForScopeDeclarations<Sentence>(parseSent, this, documentRange.start);
     this.symbols = ast.parseAstForSymbols(parseSent, documentRange.start);
+    if(parseSent.type === "require")
+      this.require = {modules: parseSent.modules, dirPath: parseSent.dirPath};
   }
 
   public dispose() {
@@ -52,6 +55,31 @@ export class Sentence {
     return this.symbols;
   }
 
+  /** @returns the libraries loaded by this sentence, if it is a `Require` command, and where they are named */
+  public getRequiredModules() : {module: string, dirPath: string|null, range: Range}[] {
+    if(!this.require)
+      return [];
+    const results : {module: string, dirPath: string|null, range: Range}[] = [];
+    const code = parser.findCode(this.text);
+    // the next occurrence of `text` from `offset` that is neither in a comment nor in a string
+    const find = (text: string, offset: number) => {
+      let start = this.text.indexOf(text, offset);
+      while(start >= 0 && !code.some(c => c.start <= start && start + text.length <= c.end))
+        start = this.text.indexOf(text, start + 1);
+      return start;
+    }
+    // the modules are listed in order after the `Require` keyword
+    let offset = find("Require", 0) + "Require".length;
+    for(let module of this.require.modules) {
+      const start = find(module, offset);
+      if(start < 0)
+        break;
+      offset = start + module.length;
+      results.push({module: module, dirPath: this.require.dirPath, range: Range.create(this.positionAt(start), this.positionAt(offset))});
+    }
+    return results;
+  }
+
   public getText() : string {
     return this.text;
   }
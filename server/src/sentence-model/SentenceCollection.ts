@@ -6,10 +6,72 @@ import * as parser from '../parsing/coq-parser';
 import {TextDocumentItem} from '../document'
 import * as server from '../server'
 import * as util from 'util'
-import {QualId, ScopeFlags, SymbolInformation} from './Scopes'
+import {QualId, ScopeFlags, SymbolInformation, SymbolKind, qualIdEqual} from './Scopes'
 
 type SentencesInvalidatedCallback = (invalidatedSentences: Sentence[]) => void;
 
+export class RenameFailure {
+  constructor(
+    public message: string
+  ) {}
+}
+
+const identRE = /[a-zA-Z_][a-zA-Z0-9_']*(?:[.][a-zA-Z_][a-zA-Z0-9_']*)*/g;
+const renamableKinds = [SymbolKind.Definition, SymbolKind.Inductive, SymbolKind.Constructor];
+
+/** @returns the (possibly qualified) identifiers of `text`, excluding those in comments and strings */
+function findIdentifiers(text: string) : {id: string, offset: number}[] {
+  const results : {id: string, offset: number}[] = [];
+  for(let code of parser.findCode(text)) {
+    identRE.lastIndex = code.start;
+    let match : RegExpExecArray;
+    while((match = identRE.exec(text)) && match.index < code.end)
+      results.push({id: match[0], offset: match.index});
+  }
+  return results;
+}
+
+/** @returns the outermost comments of `text`, which may span several lines and be nested */
+function findComments(text: string) : {start: number, end: number}[] {
+  return parser.findCommentsAndStrings(text)
+    .filter(c => c.kind === "comment" && !c.unterminated)
+    .map(c => ({start: c.start, end: c.end}));
+}
+
+/** @returns the parenthesized terms of `text`, outermost first, excluding those in comments and strings */
+function findParentheses(text: string) : {start: number, end: number}[] {
+  const results : {start: number, end: number}[] = [];
+  const open : number[] = [];
+  const parenRE = /[()]/g;
+  for(let code of parser.findCode(text)) {
+    parenRE.lastIndex = code.start;
+    let match : RegExpExecArray;
+    while((match = parenRE.exec(text)) && match.index < code.end) {
+      if(match[0] === '(')
+        open.push(match.index);
+      else if(open.length > 0)
+        results.push({start: open.pop(), end: parenRE.lastIndex});
+    }
+  }
+  return results.sort((x,y) => x.start - y.start);
+}
+
+/** @returns the offset of the command of a sentence, after any leading whitespace and comments */
+function commandOffset(text: string) : number {
+  let offset = text.search(/\S|$/);
+  for(let comment of findComments(text)) {
+    if(comment.start !== offset)
+      break;
+    offset = comment.end + text.substring(comment.end).search(/\S|$/);
+  }
+  return offset;
+}
+
+const proofStartRE = /^(?:#\[[^\]]*\]\s*)?(?:(?:Local|Global|Polymorphic|Monomorphic|Program)\s+)*(?:Theorem|Lemma|Fact|Remark|Corollary|Proposition|Property|Example|Goal|Instance|Definition|Fixpoint|CoFixpoint|Let|Next Obligation)\b/;
+const proofEndRE = /^(?:Qed|Defined|Admitted|Abort|Save)\b/;
+const openBraceRE = /^(?:(?:\d+|\[\s*[a-zA-Z_][a-zA-Z0-9_']*\s*\])\s*:\s*)?\{$/;
+const bulletRE = /^(?:-+|\++|\*+)$/;
+
 
 export class SentenceCollection implements vscode.TextDocument {
   private sentences: Sentence[] = [];
@@ -79,7 +141,6 @@ export class SentenceCollection implements vscode.TextDocument {
     const line = this.getLine(pos.line);
     if(!line)
       return null;
-    const identRE = /[a-zA-Z_][a-z-A-Z0-9_']*(?:[.][a-zA-Z_][a-z-A-Z0-9_']*)*/g;
     identRE.lastIndex = 0;
     let match : RegExpExecArray;
     while(match = identRE.exec(line.text)) {
@@ -101,10 +162,100 @@ export class SentenceCollection implements vscode.TextDocument {
     const def = this.getDefinitionAt(pos);
     if(!def)
       return [];
+    return this.lookupSymbol(def.id, pos);
+  }
+
+  /**
+   * @param pos -- where `id` is referred to; defaults to the end of the document
+   * @return the declarations that `id` may refer to, innermost first
+   */
+  public lookupSymbol(id: QualId, pos?: vscode.Position) : SymbolInformation<Sentence>[] {
+    const sent = pos ? this.getSentenceIndexBeforeOrAt(pos) : this.sentences.length-1;
+    if(sent < 0)
+      return [];
+    return this.sentences[sent].getScope().lookup(id,ScopeFlags.All);
+  }
+
+  /**
+   * @return the symbol referred to at `pos` if it can be renamed, i.e. if `pos` is at the last component of a
+   * reference to a definition, inductive type, or constructor that is declared in this document
+   */
+  private getRenameTarget(pos: Position) : {symbol: SymbolInformation<Sentence>, range: Range}|null {
+    const def = this.getDefinitionAt(pos);
+    if(!def)
+      return null;
+    const ident = def.id[def.id.length-1];
+    const range = Range.create(def.range.end.line, def.range.end.character - ident.length, def.range.end.line, def.range.end.character);
+    if(textUtil.positionIsBefore(pos, range.start))
+      return null;
+    const symbols = this.lookupSymbol(def.id, pos);
+    if(symbols.length === 0 || !renamableKinds.includes(symbols[0].symbol.kind))
+      return null;
+    return {symbol: symbols[0], range: range};
+  }
+
+  /** @return the range of the name at `pos`, or `null` if it cannot be renamed */
+  public prepareRename(pos: Position) : Range|null {
+    const target = this.getRenameTarget(pos);
+    return target ? target.range : null;
+  }
+
+  /**
+   * Renames the symbol at `pos` and each reference within this document that resolves to it
+   * @throws RenameFailure if the symbol cannot be renamed or `newName` would clash with another symbol
+   */
+  public rename(pos: Position, newName: string) : vscode.TextEdit[] {
+    if(!/^[a-zA-Z_][a-zA-Z0-9_']*$/.test(newName))
+      throw new RenameFailure(`"${newName}" is not a valid identifier`);
+    const renameTarget = this.getRenameTarget(pos);
+    if(!renameTarget)
+      throw new RenameFailure("Only definitions, inductive types, and constructors declared in this document can be renamed");
+    const target = renameTarget.symbol;
+
+    // Another symbol clashes if it has the same fully qualified name; it may be declared before or after the renamed symbol
+    const declaration = target.symbol.range.start;
+    const declared = this.lookupSymbol([target.symbol.identifier], declaration).find(s => s.symbol === target.symbol);
+    const newId = [...(declared ? declared.id : target.id).slice(0,-1), newName];
+    const clashes = [...this.lookupSymbol(newId, declaration), ...this.lookupSymbol(newId)]
+      .filter(s => s.symbol !== target.symbol && qualIdEqual(s.id.slice(0,-1), newId.slice(0,-1)));
+    if(clashes.length > 0)
+      throw new RenameFailure(`"${newName}" is already declared`);
+
+    const edits : vscode.TextEdit[] = [];
+    for(let sent of this.sentences) {
+      for(let occurrence of findIdentifiers(sent.getText())) {
+        const id = occurrence.id.split('.');
+        const ident = id[id.length-1];
+        if(ident !== target.symbol.identifier)
+          continue;
+        const resolved = sent.getScope().lookup(id, ScopeFlags.All);
+        if(resolved.length === 0 || resolved[0].symbol !== target.symbol)
+          continue;
+        const end = occurrence.offset + occurrence.id.length;
+        edits.push(vscode.TextEdit.replace(Range.create(sent.positionAt(end - ident.length), sent.positionAt(end)), newName));
+      }
+    }
+    return edits;
+  }
+
+  /**
+   * @param pos -- where the symbols are referred to
+   * @return the declarations that can be referred to at `pos`, innermost first
+   */
+  public getVisibleSymbols(pos: vscode.Position) : SymbolInformation<Sentence>[] {
     const sent = this.getSentenceIndexBeforeOrAt(pos);
     if(sent < 0)
       return [];
-    return this.sentences[sent].getScope().lookup(def.id,ScopeFlags.All);
+    return this.sentences[sent].getScope().getVisibleSymbols(ScopeFlags.All);
+  }
+
+  /** @return the (possibly qualified) identifier that ends at `pos`, or the empty string */
+  public getIdentifierPrefixAt(pos: Position) : string {
+    const line = this.getLine(pos.line);
+    if(!line)
+      return "";
+    const match = /[a-zA-Z_][a-zA-Z0-9_']*(?:[.][a-zA-Z_][a-zA-Z0-9_']*)*[.]?$/.exec(line.text.substring(0,pos.character));
+    return match ? match[0] : "";
   }
 
   public positionAt(offset: number) : Position {
@@ -141,10 +292,7 @@ export class SentenceCollection implements vscode.TextDocument {
     let sentIdx = 0;
     while(sentIdx < this.sentences.length && this.sentences[sentIdx].isBeforeOrAt(pos))
       ++sentIdx;
-    if(sentIdx >= this.sentences.length)
-      return -1;
-    else
-      return sentIdx-1;
+    return sentIdx-1;
   }
 
   /**
@@ -237,6 +385,166 @@ export class SentenceCollection implements vscode.TextDocument {
     return this.sentences;
   }
 
+  /**
+   * @return the outline of the document: sections and modules contain the
+   * declarations up to their matching `End`; inductive types contain their constructors
+   */
+  public getDocumentSymbols() : vscode.DocumentSymbol[] {
+    const outline : vscode.DocumentSymbol[] = [];
+    const open : vscode.DocumentSymbol[] = [];
+    const container = () => open.length > 0 ? open[open.length-1].children : outline;
+    const toDocumentSymbol = (sym: vscode.SymbolInformation, range: Range) =>
+      vscode.DocumentSymbol.create(sym.name, undefined, sym.kind, range, sym.location.range, []);
+
+    for(let sent of this.sentences) {
+      const scope = sent.getScope();
+      const symbols = sent.getSymbols();
+      // starts with the command, not with the preceding whitespace
+      const range = Range.create(sent.positionAt(commandOffset(sent.getText())), sent.getRange().end);
+      if(scope && scope.isEnd()) {
+        // Close the innermost section/module of the same name, and any unterminated ones nested within it
+        let idx = open.length - 1;
+        while(idx >= 0 && !scope.isEnd(open[idx].name))
+          --idx;
+        for(let s of idx >= 0 ? open.splice(idx) : [])
+          s.range = Range.create(s.range.start, sent.getRange().end);
+      } else if(scope && scope.isBegin() && symbols.length > 0) {
+        // the remaining symbols are the parameters of a functor
+        const [decl, ...params] = symbols;
+        const s = toDocumentSymbol(decl, range);
+        s.children = params.map(p => toDocumentSymbol(p, p.location.range));
+        container().push(s);
+        open.push(s);
+      } else {
+        let inductive : vscode.DocumentSymbol|null = null;
+        for(let sym of symbols) {
+          if(sym.kind === vscode.SymbolKind.Constructor && inductive)
+            inductive.children.push(toDocumentSymbol(sym, sym.location.range));
+          else {
+            const s = toDocumentSymbol(sym, range);
+            container().push(s);
+            inductive = sym.kind === vscode.SymbolKind.Class ? s : null;
+          }
+        }
+      }
+    }
+    // Unterminated sections and modules extend to the end of the document
+    for(let s of open)
+      s.range = Range.create(s.range.start, this.getLastPosition());
+    return outline;
+  }
+
+  /**
+   * @returns the sections and modules, proofs, and sub-proofs that are focused by a bullet or braces;
+   * each starts with the command that opens it (not with the preceding whitespace)
+   */
+  private getBlocks() : Range[] {
+    const results : Range[] = [];
+    const scopes : {name: string, start: Position}[] = [];
+    let proof : Position|null = null;
+    // each pair of braces, and the proof itself, has its own levels of bullets
+    let blocks : {start: Position|null, bullets: {bullet: string, start: Position}[]}[] = [{start: null, bullets: []}];
+    // a sub-proof ends with the sentence before the bullet or brace that closes it
+    const closeBullets = (bullets: {bullet: string, start: Position}[], end: Position) => {
+      for(let b of bullets)
+        results.push(Range.create(b.start, end));
+    }
+    let prevEnd : Position|null = null;
+
+    for(let sent of this.sentences) {
+      const start = sent.positionAt(commandOffset(sent.getText()));
+      const end = sent.getRange().end;
+      const command = parser.normalizeText(sent.getText()).trim();
+      const scope = sent.getScope();
+      const block = blocks[blocks.length-1];
+      if(scope && scope.isEnd()) {
+        // Close the innermost section/module of the same name, and any unterminated ones nested within it
+        const idx = scopes.map(s => scope.isEnd(s.name)).lastIndexOf(true);
+        for(let s of idx >= 0 ? scopes.splice(idx) : [])
+          results.push(Range.create(s.start, end));
+      } else if(scope && scope.isBegin())
+        scopes.push({name: scope.node.name, start: start});
+      else if(proofEndRE.test(command)) {
+        for(let b of blocks.reverse())
+          closeBullets(b.bullets, prevEnd);
+        if(proof)
+          results.push(Range.create(proof, end));
+        proof = null;
+        blocks = [{start: null, bullets: []}];
+      } else if(proofStartRE.test(command) && !command.includes(':='))
+        proof = start;
+      else if(/^Proof\b/.test(command) && !proof)
+        proof = start;
+      else if(openBraceRE.test(command))
+        blocks.push({start: start, bullets: []});
+      else if(command === '}' && blocks.length > 1) {
+        closeBullets(block.bullets, prevEnd);
+        results.push(Range.create(block.start, end));
+        blocks.pop();
+      } else if(bulletRE.test(command)) {
+        const idx = block.bullets.findIndex(b => b.bullet === command);
+        closeBullets(idx >= 0 ? block.bullets.splice(idx) : [], prevEnd);
+        block.bullets.push({bullet: command, start: start});
+      }
+      prevEnd = end;
+    }
+    return results;
+  }
+
+  /** @returns the regions that can be folded: the blocks of the document and comments that span several lines */
+  public getFoldingRanges() : vscode.FoldingRange[] {
+    const ranges : vscode.FoldingRange[] = [];
+    for(let comment of findComments(this.documentText)) {
+      const start = this.positionAt(comment.start);
+      const end = this.positionAt(comment.end);
+      if(end.line > start.line)
+        ranges.push(vscode.FoldingRange.create(start.line, end.line, undefined, undefined, vscode.FoldingRangeKind.Comment));
+    }
+    for(let block of this.getBlocks()) {
+      // a sub-proof that is focused by a bullet may also be enclosed in braces on the same lines
+      if(block.end.line > block.start.line && !ranges.some(r => !r.kind && r.startLine === block.start.line && r.endLine === block.end.line))
+        ranges.push(vscode.FoldingRange.create(block.start.line, block.end.line));
+    }
+    return ranges.sort((x,y) => x.startLine - y.startLine);
+  }
+
+  /**
+   * @returns the ranges that contain `pos`, innermost first: the identifier, the enclosing parenthesized terms,
+   * the sentence, the enclosing sub-proofs, proof, sections and modules, and the whole document
+   */
+  public getSelectionRanges(pos: Position) : Range[] {
+    const ranges : Range[] = [];
+    const sent = this.getSentenceAt(pos);
+    if(sent) {
+      const text = sent.getText();
+      const offset = sent.offsetAt(pos);
+      const ident = findIdentifiers(text).find(i => i.offset <= offset && offset <= i.offset + i.id.length);
+      if(ident)
+        ranges.push(Range.create(sent.positionAt(ident.offset), sent.positionAt(ident.offset + ident.id.length)));
+      for(let term of findParentheses(text).filter(p => p.start <= offset && offset <= p.end).reverse())
+        ranges.push(Range.create(sent.positionAt(term.start), sent.positionAt(term.end)));
+      const command = Range.create(sent.positionAt(commandOffset(text)), sent.getRange().end);
+      // the leading comments and whitespace of the sentence are not part of its command
+      ranges.push(textUtil.positionIsBefore(pos, command.start) ? sent.getRange() : command);
+    }
+    const blocks = this.getBlocks()
+      .filter(b => textUtil.rangeContains(b, pos) || textUtil.positionIsEqual(b.end, pos))
+      .sort((x,y) => textUtil.positionIsEqual(x.start, y.start)
+        ? (textUtil.positionIsBefore(x.end, y.end) ? -1 : 1)
+        : (textUtil.positionIsAfter(x.start, y.start) ? -1 : 1));
+    ranges.push(...blocks, Range.create(Position.create(0,0), this.getLastPosition()));
+    // each range must contain `pos` and strictly contain the previous one
+    const contains = (outer: Range, inner: Range) =>
+      textUtil.positionIsBeforeOrEqual(outer.start, inner.start) && textUtil.positionIsBeforeOrEqual(inner.end, outer.end);
+    const result : Range[] = [];
+    for(let range of ranges) {
+      const previous = result.length > 0 ? result[result.length-1] : Range.create(pos, pos);
+      if(contains(range, previous) && !(textUtil.positionIsEqual(range.start, previous.start) && textUtil.positionIsEqual(range.end, previous.end)))
+        result.push(range);
+    }
+    return result;
+  }
+
   public getSentencePrefixTextAt(pos: Position, normalize = true) : string {
     const sent = this.getSentenceIndexBeforeOrAt(pos);
     let range: Range;
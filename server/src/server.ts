@@ -4,14 +4,15 @@ import {
 	createConnection, IConnection, TextDocumentSyncKind,
 	Diagnostic,
 	InitializeResult, TextDocumentIdentifier, Position, TextDocumentPositionParams,
-  CodeLensParams,
-	CompletionItem, ServerCapabilities, CodeActionParams, Command, CodeLens
+  CodeLensParams, DocumentSymbolParams, ReferenceParams, RenameParams, FoldingRangeParams,
+	CompletionItem, ServerCapabilities, CodeActionParams, CodeLens
 } from 'vscode-languageserver';
 import * as vscodeLangServer from 'vscode-languageserver';
  
 import * as coqproto from './protocol';
 import {Settings} from './protocol';
 import {CoqProject} from './CoqProject';
+import {CompletionItemData} from './document';
 import { RouteId } from './coqtop/coq-proto';
 
 // Create a connection for the server. The connection uses 
@@ -57,6 +58,15 @@ connection.onInitialize((params): InitializeResult => {
 			completionProvider: {
 				resolveProvider: true
 			},
+			definitionProvider: true,
+			hoverProvider: true,
+			referencesProvider: true,
+			documentHighlightProvider: true,
+			renameProvider: {prepareProvider: true},
+			documentSymbolProvider: true,
+			documentLinkProvider: {resolveProvider: false},
+			foldingRangeProvider: true,
+			codeActionProvider: true,
 		}
 	}
 });
@@ -105,40 +115,19 @@ process.on('SIGBREAK', function () {
 });
 
 // This handler provides the initial list of the completion items.
-connection.onCompletion((textDocumentPosition: TextDocumentPositionParams): CompletionItem[] => {
-	// The pass parameter contains the position of the text document in 
-	// which code complete got requested. For the example we ignore this
-	// info and always provide the same completion items.
-	return [];
-	// 	{
-	// 		label: 'idtac',
-	// 		kind: CompletionItemKind.Snippet,
-	// 		data: 1
-	// 	},
-	// 	{
-	// 		label: 'Definition',
-	// 		kind: CompletionItemKind.Keyword,
-	// 		data: 2
-	// 	},
-	// 	{
-	// 		label: 'reflexivity.',
-	// 		kind: CompletionItemKind.Text,
-	// 		data: 4
-	// 	}
-	// ]
+connection.onCompletion((textDocumentPosition: TextDocumentPositionParams, token: CancellationToken) => {
+  return project.lookup(textDocumentPosition.textDocument.uri)
+    .provideCompletions(textDocumentPosition.position);
 });
 
 
 // This handler resolve additional information for the item selected in
 // the completion list.
-connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
-	if (item.data === 1) {
-		item.detail = 'Tactic'
-	} else if (item.data === 4) {
-		item.detail = 'JavaScript details',
-		item.documentation = 'solves by reflexivity'
-	}
-	return item;
+connection.onCompletionResolve((item: CompletionItem, token: CancellationToken) => {
+  if(!item.data)
+    return item;
+  return project.lookup((item.data as CompletionItemData).uri)
+    .resolveCompletionItem(item);
 });
 
 // export interface RequestHandler<P, R, E> {
@@ -181,6 +170,14 @@ connection.onRequest(coqproto.CachedGoalRequest.type, (params: coqproto.CachedGo
   return project.lookup(params.uri)
     .getCachedGoal(params.position, params.direction);
 });
+connection.onRequest(coqproto.CompareCachedGoalsRequest.type, (params: coqproto.CompareCachedGoalsParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .getCachedGoalComparison(params.basePosition, params.position, params.direction);
+});
+connection.onRequest(coqproto.ProofTimelineRequest.type, (params: coqproto.ProofTimelineParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .getProofTimeline(params.position);
+});
 connection.onRequest(coqproto.QueryRequest.type, async (params: coqproto.CoqTopQueryParams, token: CancellationToken) => {
   return project.lookup(params.uri).query(params.queryFunction, params.query, params.routeId);
 });
@@ -210,6 +207,91 @@ connection.onRequest(coqproto.GetSentencePrefixTextRequest.type, (params: coqpro
 });
 
 
+connection.onRequest(coqproto.SearchRequest.type, (params: coqproto.CoqTopSearchParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .search(params.query);
+});
+
+connection.onRequest(coqproto.DefinitionOfNameRequest.type, (params: coqproto.DefinitionOfNameParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .provideDefinitionOfName(params.module, params.name);
+});
+
+connection.onRequest(coqproto.MakeCasesRequest.type, (params: coqproto.MakeCasesParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .makeCases(params.position);
+});
+
+connection.onRequest(coqproto.DocumentAssumptionsRequest.type, (params: coqproto.CoqTopParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .getAssumptions();
+});
+
+connection.onRequest(coqproto.WorkspaceAssumptionsRequest.type, (token: CancellationToken) => {
+  return project.getWorkspaceAssumptions();
+});
+
+connection.onRequest(coqproto.PrintAssumptionsRequest.type, (params: coqproto.PrintAssumptionsParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .printAssumptions(params.name);
+});
+
+connection.onRequest(coqproto.TimingReportRequest.type, (params: coqproto.CoqTopParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .getTimingReport();
+});
+
+connection.onRequest(coqproto.StopWorkerRequest.type, (params: coqproto.StopWorkerParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .stopWorker(params.worker);
+});
+
+connection.onRequest(coqproto.SelectionRangeRequest.type, (params: coqproto.SelectionRangeParams, token: CancellationToken) => {
+  return project.lookup(params.uri)
+    .provideSelectionRanges(params.positions);
+});
+
+connection.onDefinition((params: TextDocumentPositionParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .provideDefinition(params.position);
+});
+
+connection.onReferences((params: ReferenceParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .provideReferences(params.position, params.context.includeDeclaration);
+});
+
+connection.onDocumentHighlight((params: TextDocumentPositionParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .provideDocumentHighlights(params.position);
+});
+
+connection.onPrepareRename((params: TextDocumentPositionParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .prepareRename(params.position);
+});
+
+connection.onRenameRequest((params: RenameParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .rename(params.position, params.newName);
+});
+
+connection.onHover((params: TextDocumentPositionParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .provideHover(params.position);
+});
+
+connection.onDocumentSymbol((params: DocumentSymbolParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .provideDocumentSymbols();
+});
+
+connection.onFoldingRanges((params: FoldingRangeParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .provideFoldingRanges();
+});
+
+
 function sendHighlightUpdates(documentUri: string, highlights: coqproto.Highlights) {
   connection.sendNotification(coqproto.UpdateHighlightsNotification.type,
     Object.assign(highlights, {uri: documentUri}));
@@ -223,7 +305,8 @@ function sendDiagnostics(documentUri: string, diagnostics: Diagnostic[]) {
 }
 
 connection.onCodeAction((params:CodeActionParams) => {
-  return <Command[]>[];
+  return project.lookup(params.textDocument.uri)
+    .provideCodeActions(params.range);
 });
 
 connection.onCodeLens((params:CodeLensParams) => {
@@ -241,6 +324,11 @@ export interface DocumentLinkParams {
     textDocument: TextDocumentIdentifier;
 }
 
+connection.onDocumentLinks((params: DocumentLinkParams, token: CancellationToken) => {
+  return project.lookup(params.textDocument.uri)
+    .provideDocumentLinks();
+});
+
 connection.onDidOpenTextDocument((params: vscodeLangServer.DidOpenTextDocumentParams) => {
   const uri = params.textDocument.uri; 
   project.open(params.textDocument, {
@@ -266,6 +354,8 @@ connection.onDidOpenTextDocument((params: vscodeLangServer.DidOpenTextDocumentPa
       connection.sendNotification(coqproto.CoqtopStartNotification.type, {uri: uri}),
     sendCoqtopStop: (reason: coqproto.CoqtopStopReason, message?: string) =>
       connection.sendNotification(coqproto.CoqtopStopNotification.type, {uri: uri, reason: reason, message: message}),
+    sendWorkers: (workers: coqproto.WorkerStatus[]) =>
+      connection.sendNotification(coqproto.CoqWorkersNotification.type, {uri: uri, workers: workers}),
   });
 
 });
@@ -1,6 +1,6 @@
 // 'use strict';
 
-import {ProofView, Goal, Hypothesis, HypothesisDifference, UnfocusedGoalStack} from '../protocol';
+import {ProofView, Goal, Hypothesis, HypothesisDifference, UnfocusedGoalStack, ProofHints} from '../protocol';
 import * as text from '../util/AnnotatedText';
 import * as server from '../server';
 
@@ -74,6 +74,8 @@ type ProofViewNoFocus = {
     backgroundGoals?: UnfocusedGoalStack,
     shelvedGoals: Goal[],
     abandonedGoals: Goal[],
+    evars: string[],
+    hints?: ProofHints,
   };
 export function diffProofView(oldState: ProofViewNoFocus, newState: ProofView) : ProofView {
   try {
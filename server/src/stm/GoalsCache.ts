@@ -1,4 +1,4 @@
-import {ProofView,Goal,UnfocusedGoalStack} from '../protocol';
+import {ProofView,Goal,UnfocusedGoalStack,ProofHints} from '../protocol';
 
 export type GoalId  = number;
 
@@ -13,6 +13,8 @@ export interface ProofViewReference {
   backgroundGoals: UnfocusedGoalStackReference|null,
   shelvedGoals: GoalId[],
   abandonedGoals: GoalId[],
+  evars: string[],
+  hints?: ProofHints,
 }
 
 type ProofViewNoFocus = {
@@ -20,6 +22,8 @@ type ProofViewNoFocus = {
     backgroundGoals?: UnfocusedGoalStack,
     shelvedGoals: Goal[],
     abandonedGoals: Goal[],
+    evars: string[],
+    hints?: ProofHints,
   };
 
 /**
@@ -61,6 +65,8 @@ export class GoalsCache {
       abandonedGoals: pv.abandonedGoals.map(g => g.id),
       shelvedGoals: pv.shelvedGoals.map(g => g.id),
       backgroundGoals: getUnfocusedIds(pv.backgroundGoals),
+      evars: pv.evars || [],
+      hints: pv.hints,
     } 
   }
 
@@ -81,6 +87,8 @@ export class GoalsCache {
       abandonedGoals: state.abandonedGoals.map(id => this.goalsCache.get(id)),
       shelvedGoals: state.shelvedGoals.map(id => this.goalsCache.get(id)),
       backgroundGoals: this.getBackgroundGoals(state.backgroundGoals),
+      evars: state.evars,
+      hints: state.hints,
     }
   }
 }
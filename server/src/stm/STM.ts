@@ -5,17 +5,19 @@ import {CancellationToken} from 'vscode-jsonrpc';
 import * as vscode from 'vscode-languageserver';
 import * as coqProto from './../coqtop/coq-proto';
 import * as util from 'util';
+import * as semver from 'semver';
 import * as proto from './../protocol';
 import * as textUtil from './../util/text-util';
 import * as coqtop from './../coqtop/CoqTop';
 import * as coqParser from './../parsing/coq-parser';
 import * as errorParsing from '../parsing/error-parsing';
-import {State, CoqDiagnostic, StateStatus} from './State';
+import {State, CoqDiagnostic, StateStatus, GlobSymbol} from './State';
 import {Mutex} from './../util/Mutex';
-import * as server from '../server';
+import {PrettifySymbolsMode} from '../util/PrettifySymbols';
 import {AnnotatedText} from '../util/AnnotatedText'
 import * as text from '../util/AnnotatedText'
 import {GoalsCache} from './GoalsCache';
+import {LoadModule} from '../parsing/SentenceSemantics';
 
 import {Settings} from '../protocol';
 export {StateStatus} from './State';
@@ -43,6 +45,7 @@ interface CoqProject {
   getWorkspaceRoot() : string,
   readonly console : vscode.RemoteConsole,
   readonly settings : Settings,
+  getPrettifySymbols() : PrettifySymbolsMode,
 }
 
 type BufferedFeedback = BufferedFeedbackStatus | BufferedFeedbackFileLoaded;
@@ -55,6 +58,7 @@ export interface StateMachineCallbacks {
   message(level: coqProto.MessageLevel, message: AnnotatedText, routeId: coqProto.RouteId) : void;
   ltacProfResults(range: Range, results: coqProto.LtacProfResults) : void;
   coqDied(reason: proto.CoqtopStopReason, error?: string) : void;
+  updateWorkers(workers: proto.WorkerStatus[]) : void;
 }
 
 const dummyCallbacks : StateMachineCallbacks = {
@@ -65,6 +69,7 @@ const dummyCallbacks : StateMachineCallbacks = {
   message() : void {},
   ltacProfResults() : void {},
   coqDied() : void {},
+  updateWorkers() : void {},
 }
 
 export type CommandIterator = (begin: Position, end?: Position) => Iterable<{text: string, range: Range}>;
@@ -135,6 +140,12 @@ export class CoqStateMachine {
   private goalsCache = new GoalsCache();
   /** The connected instance of coqtop */
   private coqtop : coqtop.CoqTop;
+  /** Output of the queries issued on behalf of the server rather than the user, by routeId */
+  private internalQueries = new Map<coqProto.RouteId, AnnotatedText[]>();
+  /** Route ids of internal queries; kept apart from the route ids chosen by the client */
+  private internalRouteId = 10000;
+  /** The workers that coqtop spawned to check proofs asynchronously, by id */
+  private workers = new Map<string, proto.WorkerStatus>();
 
 
   constructor(private project: CoqProject
@@ -408,7 +419,9 @@ export class CoqStateMachine {
     try {
       await this.refreshOptions();
       const result = await this.coqtop.coqGoal();
-      return this.convertGoals(result);
+      const evars = result.mode === 'proof' ? await this.callOptional(() => this.coqtop.coqEvars(), []) : [];
+      const hints = result.mode === 'proof' ? await this.callOptional(() => this.coqtop.coqHints(), null) : null;
+      return this.convertGoals(result, evars, hints);
     } catch(error) {
       if(error instanceof coqtop.CallFailure) {
         const sent = this.focusedSentence;
@@ -427,9 +440,9 @@ export class CoqStateMachine {
    */
   public async getCachedGoal(pos: vscode.Position, direction: "preceding"|"subsequent") : Promise<GoalResult> {
     try {
-      const state = (direction==="subsequent" ? this.getStateAt(pos) : null) || this.getPrecedingStateAt(pos);
+      const state = this.getCachedState(pos, direction);
       if(state && state.hasGoal())
-        return Object.assign({type: 'proof-view'} as {type: 'proof-view'}, state.getGoal(this.goalsCache));
+        return Object.assign({type: 'proof-view'} as {type: 'proof-view'}, state.getGoal(this.goalsCache, this.proofViewDiff === "vscoq"));
       else
         return {type: "no-proof"}
     } catch(error) {
@@ -437,6 +450,57 @@ export class CoqStateMachine {
     }
   }
 
+  /**
+   * Return the cached goal at `pos`, highlighting its differences from the cached goal at `basePos`
+   * @throws FailValue
+   */
+  public async getCachedGoalComparison(basePos: vscode.Position, pos: vscode.Position, direction: "preceding"|"subsequent") : Promise<GoalResult> {
+    try {
+      const base = this.getCachedState(basePos, direction);
+      const state = this.getCachedState(pos, direction);
+      if(base && state && base.hasGoal() && state.hasGoal())
+        return Object.assign({type: 'proof-view'} as {type: 'proof-view'}, state.getGoalComparedTo(base, this.goalsCache));
+      else
+        return {type: "no-proof"}
+    } catch(error) {
+       return {type: "no-proof"}
+    }
+  }
+
+  private getCachedState(pos: vscode.Position, direction: "preceding"|"subsequent") : State|null {
+    return (direction==="subsequent" ? this.getStateAt(pos) : null) || this.getPrecedingStateAt(pos);
+  }
+
+  /**
+   * @returns the sentences whose proof views are cached, in document order, of the proof at `pos`:
+   * from its statement through `Qed`, or through the last processed sentence if it is not finished
+   */
+  public getProofTimeline(pos: vscode.Position) : Range[] {
+    if(!this.isRunning())
+      return [];
+    const state = this.getStateAt(pos) || this.getPrecedingStateAt(pos);
+    const command = (s: State) => coqParser.normalizeText(s.getText()).trim();
+    let start : State|null = null;
+    for(let s of state ? state.backwards() : []) {
+      if(s.isRoot() || (s !== state && coqParser.isProofEnd(command(s))))
+        break;
+      else if(coqParser.proofName(command(s)) !== null) {
+        start = s;
+        break;
+      }
+    }
+    const steps : Range[] = [];
+    for(let s of start ? start.forwards() : []) {
+      if(s !== start && coqParser.proofName(command(s)) !== null)
+        break;
+      if(s.hasGoal())
+        steps.push(s.getRange());
+      if(coqParser.isProofEnd(command(s)))
+        break;
+    }
+    return steps;
+  }
+
   private getPrecedingStateAt(pos: vscode.Position) : State|null {
     let preceding = this.root;
     for(let s of this.sentences.values()) {
@@ -539,6 +603,73 @@ export class CoqStateMachine {
     }
   }
 
+  /** @returns the objects that satisfy all of the constraints, in the current state of coqtop */
+  public async doSearch(constraints: coqProto.SearchConstraint[]) : Promise<coqProto.CoqObject<string>[]> {
+    if(!this.isCoqReady())
+      return [];
+    const endCommand = await this.startCommand();
+    if(!endCommand)
+      return [];
+    try {
+      await this.refreshOptions();
+      return await this.coqtop.coqSearch(constraints);
+    } finally {
+      endCommand();
+    }
+  }
+
+  /** Kills the asynchronous proof worker `worker`; the proofs that it was checking will fail */
+  public async stopWorker(worker: string) : Promise<void> {
+    if(!this.isCoqReady())
+      return;
+    const endCommand = await this.startCommand();
+    if(!endCommand)
+      return;
+    try {
+      await this.coqtop.coqStopWorker(worker);
+    } finally {
+      endCommand();
+    }
+  }
+
+  /**
+   * @returns the cases of `inductive`: each case is the name of a constructor followed by the names of its arguments;
+   * `null` if Coq is not ready or busy with another command
+   */
+  public async makeCases(inductive: string) : Promise<string[][]|null> {
+    if(!this.isCoqReady())
+      return null;
+    const endCommand = await this.startCommand();
+    if(!endCommand)
+      return null;
+    try {
+      return await this.coqtop.coqMkCases(inductive);
+    } finally {
+      endCommand();
+    }
+  }
+
+  /**
+   * Runs a query whose output is collected for the server instead of being sent to the client
+   * @returns the messages output by the query, or `null` if the query failed
+   */
+  public async queryText(query: string, position?: Position) : Promise<AnnotatedText[]|null> {
+    const routeId = this.internalRouteId++;
+    const output : AnnotatedText[] = [];
+    this.internalQueries.set(routeId, output);
+    try {
+      await this.doQuery(query, routeId, position);
+      return output;
+    } catch(error) {
+      if(error instanceof coqtop.CallFailure)
+        return null;
+      else
+        throw error;
+    } finally {
+      this.internalQueries.delete(routeId);
+    }
+  }
+
   public async setWrappingWidth(columns: number) : Promise<void> {
     if(!this.isCoqReady())
       return;
@@ -644,6 +775,49 @@ private routeId = 1;
     }
   }
 
+  /**
+   * Iterates the processed sentences, in document order, with the time (ms) that coqtop spent on each;
+   * the time of the sentences delegated to a worker is `null`
+   */
+  public *getSentenceTimings() : IterableIterator<{text: string, range: Range, time: number|null}> {
+    if(!this.isRunning())
+      return;
+    for(let sent of this.root.descendants()) {
+      const time = sent.getComputeTime();
+      if(time !== null || sent.isDelegated())
+        yield { text: sent.getText(), range: sent.getRange(), time: time };
+    }
+  }
+
+  /** Iterates the libraries that coqtop has loaded for the processed sentences */
+  public *getLoadedModules() : IterableIterator<LoadModule> {
+    if(!this.isRunning())
+      return;
+    for(let sent of this.root.descendants())
+      yield* sent.getLoadedModules();
+  }
+
+  /** Iterates the names resolved by coqtop in the processed sentences, in document order */
+  public *getGlobs() : IterableIterator<GlobSymbol> {
+    if(!this.isRunning())
+      return;
+    for(let sent of this.root.descendants())
+      yield* sent.getGlobs();
+  }
+
+  /**
+   * @returns the names within the document that refer to the same object as the name at `position`.
+   * Definitions are matched by their module path and identifier, since coqtop does not report which library they belong to.
+   */
+  public getGlobOccurrences(position: Position) : GlobSymbol[] {
+    const globs = Array.from(this.getGlobs());
+    const target = globs.find(g => textUtil.rangeContainsOrTouches(g.range, position) || textUtil.positionIsEqual(g.range.start, position));
+    if(!target)
+      return [];
+    return globs.filter(g => g.ident === target.ident && g.path === target.path
+      && (g.library === null || target.library === null || g.library === target.library));
+  }
+
   public *getDiagnostics() : IterableIterator<CoqDiagnostic> {
     if(!this.isRunning())
       return;
@@ -653,12 +827,14 @@ private routeId = 1;
   }
 
   private getParentSentence(position: Position) : State {
+    let last = this.root;
     for(let sentence of this.root.descendants()) {
       if(!sentence.isBefore(position))
         return sentence.getParent();
+      last = sentence;
     }
-    // This should never be reached
-    return this.root;
+    // `position` is after every sentence
+    return last;
   }
 
   private getSentence(position: Position) : State {
@@ -806,7 +982,7 @@ private routeId = 1;
       );
 
     const diffError = errorParsing.parseError(error.message);
-    const prettyError = server.project.getPrettifySymbols().prettify(diffError)
+    const prettyError = this.project.getPrettifySymbols().prettify(diffError)
     const message = text.normalizeText(prettyError);
     this.currentError = {message: message, range: errorRange, sentence: command.range}
 
@@ -817,16 +993,21 @@ private routeId = 1;
     return this.currentError;
   }
 
+  /** Converts a goal of coqtop, including the diffs of coqtop if `Diffs` is on */
   private parseConvertGoal(goal: coqProto.Subgoal) : proto.Goal {
     return <proto.Goal>{
       id: goal.id,
-      goal: server.project.getPrettifySymbols().prettify(goal.goal),
+      goal: this.project.getPrettifySymbols().prettify(text.annotateNativeDiffs(goal.goal)),
       hypotheses: goal.hypotheses.map((hyp) => {
-        let h = text.textSplit(hyp,/(:=|:)([^]*)/,2);
+        let h = text.textSplit(text.annotateNativeDiffs(hyp),/(:=|:)([^]*)/,2);
+        const expression = text.normalizeText(this.project.getPrettifySymbols().prettify(h.rest));
         const result =
           { identifier: text.textToString(h.splits[0]).trim()
           , relation: text.textToString(h.splits[1])
-          , expression: text.normalizeText(server.project.getPrettifySymbols().prettify(h.rest))};
+          , expression: expression
+          , diff: text.hasDiff(h.splits[0]) ? proto.HypothesisDifference.New
+            : text.hasDiff(expression) ? proto.HypothesisDifference.Changed
+            : proto.HypothesisDifference.None};
         return result;
       })
     };
@@ -835,29 +1016,52 @@ private routeId = 1;
   private convertUnfocusedGoals(focusStack: coqProto.UnfocusedGoalStack) : proto.UnfocusedGoalStack {
     if(focusStack)
       return {
-        before: focusStack.before.map(this.parseConvertGoal),
+        before: focusStack.before.map(goal => this.parseConvertGoal(goal)),
         next: this.convertUnfocusedGoals(focusStack.next),
-        after: focusStack.after.map(this.parseConvertGoal)
+        after: focusStack.after.map(goal => this.parseConvertGoal(goal))
       };
     else
       return null;
   }
 
 
-  private convertGoals(goals: coqtop.GoalResult) : GoalResult {
+  /**
+   * The existential variables and hints are auxiliary to the goals, so failing to retrieve them is not an error
+   * @returns the result of `call`, or `otherwise` if coqtop fails to answer it
+   */
+  private async callOptional<T>(call: () => Promise<T>, otherwise: T) : Promise<T> {
+    try {
+      return await call();
+    } catch(error) {
+      if(error instanceof coqtop.CallFailure)
+        return otherwise;
+      throw error;
+    }
+  }
+
+  private convertHints(hints: coqProto.HintsReturn|null) : proto.ProofHints|undefined {
+    if(!hints)
+      return undefined;
+    const convert = (hint: coqProto.Hint) => hint.map(([label, tactic]) => ({label: label, tactic: tactic}));
+    return {hypotheses: hints.hintsA.map(convert), goal: convert(hints.hintB)};
+  }
+
+  private convertGoals(goals: coqtop.GoalResult, evars: string[], hints: coqProto.HintsReturn|null) : GoalResult {
     switch(goals.mode) {
       case 'no-proof':
         return {type: 'no-proof'}
       case 'proof':
         const pv = this.goalsCache.cacheProofView({
-          goals: goals.goals.map(this.parseConvertGoal),
+          goals: goals.goals.map(goal => this.parseConvertGoal(goal)),
           backgroundGoals: this.convertUnfocusedGoals(goals.backgroundGoals),
-          shelvedGoals: (goals.shelvedGoals || []).map(this.parseConvertGoal),
-          abandonedGoals: (goals.abandonedGoals || []).map(this.parseConvertGoal),
+          shelvedGoals: (goals.shelvedGoals || []).map(goal => this.parseConvertGoal(goal)),
+          abandonedGoals: (goals.abandonedGoals || []).map(goal => this.parseConvertGoal(goal)),
+          evars: evars,
+          hints: this.convertHints(hints),
           focus: this.getFocusedPosition()
         });
         this.focusedSentence.setGoal(pv);
-        return {type: 'proof-view', ...this.focusedSentence.getGoal(this.goalsCache)};
+        return {type: 'proof-view', ...this.focusedSentence.getGoal(this.goalsCache, this.proofViewDiff === "vscoq")};
       default:
         this.console.warn("Goal returned an unexpected value: " + util.inspect(goals,false,undefined));
     }
@@ -951,9 +1155,10 @@ private routeId = 1;
         if(feedback.type === "status") {
           sent.updateStatus(feedback.status);
           this.callbacks.sentenceStatusUpdate(sent.getRange(), sent.getStatus())
+          if(feedback.status === coqProto.SentenceStatus.ProcessingInWorker)
+            this.assignWorker(feedback.worker, sent);
         } else if(feedback.type === "fileLoaded") {
-          // if(sent.getText().includes(feedback.module))
-          //   sent.addSemantics(new LoadModule(feedback.filename, feedback.module));
+          sent.addLoadedModule(feedback.filename, feedback.module);
         }
       });
     this.bufferedFeedback = [];
@@ -967,7 +1172,12 @@ private routeId = 1;
   }
 
   private onCoqMessage(msg: coqProto.Message, routeId: coqProto.RouteId, stateId?: StateId) {
-    const prettyMessage = text.normalizeText(server.project.getPrettifySymbols().prettify(errorParsing.parseError(msg.message)));
+    const queryOutput = this.internalQueries.get(routeId);
+    if(queryOutput) {
+      queryOutput.push(msg.message);
+      return;
+    }
+    const prettyMessage = text.normalizeText(this.project.getPrettifySymbols().prettify(errorParsing.parseError(msg.message)));
     if(msg.level === coqProto.MessageLevel.Error && stateId!==undefined) {
       const sent = this.sentences.get(stateId);
       if(sent) {
@@ -1002,10 +1212,18 @@ private routeId = 1;
       } else {
         this.console.warn(`LtacProf results for unknown stateId: ${stateId}`);
       }
-    } else if(feedback.feedbackKind === "worker-status" && hasStateId) {
+    } else if(feedback.feedbackKind === "worker-status") {
+      this.updateWorkerStatus(feedback);
+    } else if((feedback.feedbackKind === "glob-ref" || feedback.feedbackKind === "glob-def") && hasStateId) {
+      const sent = this.sentences.get(stateId);
+      if(sent)
+        sent.pushGlobFeedback(feedback);
+    } else if(feedback.feedbackKind === "file-loaded" && hasStateId) {
       const sent = this.sentences.get(stateId);
       if(sent)
-        sent.updateWorkerStatus(feedback.id, feedback.ident);
+        sent.addLoadedModule(feedback.filename, feedback.module);
+      else
+        this.bufferedFeedback.push({stateId: stateId, type: "fileLoaded", filename: feedback.filename, module: feedback.module});
     } else if(feedback.feedbackKind === "message") {
       // this.console.log("Message feedback: " + util.inspect(feedback));
       this.onCoqMessage(feedback, feedback.route, stateId /* can be undefined */);
@@ -1014,6 +1232,8 @@ private routeId = 1;
       if(sent) {
         sent.updateStatus(feedback.status);
         this.callbacks.sentenceStatusUpdate(sent.getRange(), sent.getStatus())
+        if(feedback.status === coqProto.SentenceStatus.ProcessingInWorker)
+          this.assignWorker(feedback.worker, sent);
       } else {
         // Sometimes, feedback will be received before CoqTop has given us the new stateId,
         // So we will buffer these messages until we get the next 'value' response.
@@ -1022,6 +1242,28 @@ private routeId = 1;
     }
   }
 
+  private updateWorkerStatus(status: coqProto.WorkerStatus) {
+    const worker = this.workers.get(status.id);
+    this.workers.set(status.id, {
+      id: status.id,
+      // The protocol mirrors the enumeration of coqtop
+      state: status.state as number,
+      ident: status.ident,
+      range: worker && status.state !== coqProto.WorkerState.Idle ? worker.range : undefined,
+    });
+    this.callbacks.updateWorkers(Array.from(this.workers.values()));
+  }
+
+  /** Records that `sent` is being processed by the worker `workerId` */
+  private assignWorker(workerId: string, sent: State) {
+    // the master process reports its own sentences as processed in "master"
+    if(workerId !== "master")
+      sent.markDelegated();
+    const worker = this.workers.get(workerId) || {id: workerId, state: proto.WorkerState.Processing};
+    this.workers.set(workerId, {...worker, range: sent.getRange()});
+    this.callbacks.updateWorkers(Array.from(this.workers.values()));
+  }
+
   /** recieved from coqtop controller */
   private async onCoqClosed(isError: boolean, message?: string) {
     this.callbacks.coqDied(isError ? proto.CoqtopStopReason.Anomaly : proto.CoqtopStopReason.UserRequest, message);
@@ -1096,6 +1338,11 @@ private routeId = 1;
     return results;
   }
 
+  /** How to highlight the differences between successive proof states */
+  private get proofViewDiff() : "vscoq"|"coq"|"none" {
+    return this.project.settings.coq.proofViewDiff || "vscoq";
+  }
+
   private async refreshOptions() : Promise<void> {
     let options : coqtop.CoqOptions = {};
     options.printingWidth = this.currentCoqOptions.printingWidth;
@@ -1106,6 +1353,8 @@ private routeId = 1;
     options.printingImplicit = this.currentCoqOptions.printingImplicit;
     options.printingAll = this.currentCoqOptions.printingAll;
     options.printingUniverses = this.currentCoqOptions.printingUniverses;
+    if(semver.satisfies(this.coqtop.getVersion(), ">= 8.9"))
+      options.diffs = this.proofViewDiff === "coq" ? "on" : "off";
     await this.coqtop.coqSetOptions(options);
   }
 
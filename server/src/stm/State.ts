@@ -7,6 +7,7 @@ import {ProofView,} from '../protocol';
 import {AnnotatedText} from '../util/AnnotatedText';
 import * as diff from './DiffProofView';
 import {ProofViewReference, GoalsCache} from './GoalsCache'
+import {LoadModule} from '../parsing/SentenceSemantics';
 type StateId = number;
 
 interface CoqDiagnosticInternal {
@@ -27,10 +28,29 @@ export interface CoqDiagnostic extends CoqDiagnosticInternal {
   severity: DiagnosticSeverity,
 }
 
+/** A name that coqtop has resolved while processing a sentence (glob feedback) */
+export interface GlobSymbol {
+  /** Range of the name w.r.t. document positions */
+  range: Range,
+  /** whether the name declares the object or refers to it */
+  role: "definition"|"reference",
+  /** the library that declares the object; `null` for definitions, which are declared by this document */
+  library: string|null,
+  /** the modules, within the library, that contain the object */
+  path: string,
+  ident: string,
+  /** the kind of object as in *.glob files, e.g. "def", "ind", "constr", "var", "not" */
+  type: string,
+}
+
 export enum StateStatus {
   Parsing, Processing, Processed, Error, Axiom, Incomplete,
 }
 
+function hrtimeToMS(time: [number,number]) : number {
+  return time[0] * 1000 + time[1] / 1e6;
+}
+
 enum StateStatusFlags {
   Parsing = 0,
   Processing = 1 << 0,
@@ -47,6 +67,14 @@ export class State {
   // set to true when a document change has invalidated the meaning of the associated sentence; this state needs to be cancelled
   private markedInvalidated = false;
   private goal : ProofViewReference | null = null; 
+  private globs: GlobSymbol[] = [];
+  private loadedModules: LoadModule[] = [];
+  /** When the sentence was sent to coqtop */
+  private computeStart : [number,number] = [0,0];
+  /** When coqtop reported the sentence as processed; `null` until then */
+  private computeEnd : [number,number]|null = null;
+  /** Whether coqtop delegated the sentence to a worker, which reports it as processed out of order */
+  private delegated = false;
 
   private constructor
     ( private commandText: string
@@ -69,6 +97,7 @@ export class State {
     if(!textUtil.positionIsEqual(range.start, parent.textRange.end))
       throw "New sentence is expected to be adjacent to its parent";
     const result = new State(command,stateId,range,parent,parent.next);
+    result.computeStart = computeStart;
     parent.next = result;
     return result;
   }
@@ -144,10 +173,6 @@ export class State {
       this.next.prev = this.prev;
   }
 
-  public updateWorkerStatus(workerId: string, status: string) {
-    
-  }
-
   /** Handle sentence-status updates as they come from coqtop */
   public updateStatus(status: coqProto.SentenceStatus) {
     switch(status) {
@@ -157,8 +182,10 @@ export class State {
       case coqProto.SentenceStatus.AddedAxiom:
         this.status &= ~(StateStatusFlags.Processing | StateStatusFlags.Error);
         this.status |= StateStatusFlags.Unsafe;
+        this.recordComputeEnd();
         break;
       case coqProto.SentenceStatus.Processed:
+        this.recordComputeEnd();
         if(this.status & StateStatusFlags.Processing) {
           this.status &= ~StateStatusFlags.Processing;
         }
@@ -179,6 +206,34 @@ export class State {
     }
   }
 
+  private recordComputeEnd() {
+    if(this.computeEnd === null)
+      this.computeEnd = process.hrtime();
+  }
+
+  /** Records that coqtop delegated this sentence to a worker; its compute time is then unknown */
+  public markDelegated() {
+    this.delegated = true;
+  }
+
+  public isDelegated() : boolean {
+    return this.delegated;
+  }
+
+  /**
+   * @returns how many milliseconds coqtop spent processing this sentence, or `null` if it has not been processed or was delegated to a worker.
+   * The master process handles its sentences in order, so the time is counted from when the previous sentence it handled was processed, if that is later than when this one was sent.
+   */
+  public getComputeTime() : number|null {
+    if(this.computeEnd === null || this.delegated || this.isRoot())
+      return null;
+    let prev = this.prev;
+    while(prev.delegated)
+      prev = prev.prev;
+    const start = Math.max(hrtimeToMS(this.computeStart), prev.computeEnd ? hrtimeToMS(prev.computeEnd) : 0);
+    return Math.max(0, hrtimeToMS(this.computeEnd) - start);
+  }
+
   public getRange() : Range {
     return this.textRange;
   }
@@ -191,23 +246,36 @@ export class State {
     this.goal = goal;
   }
 
-  public getGoal(goalsCache: GoalsCache) : ProofView|null {
+  /** @param highlightDiff -- whether to highlight the differences from the goals of the preceding state */
+  public getGoal(goalsCache: GoalsCache, highlightDiff = true) : ProofView|null {
     if(!this.goal)
       return null;
     const newGoals = {...goalsCache.getProofView(this.goal), focus: this.textRange.end};
-    if(this.prev && this.prev.goal) {
+    if(highlightDiff && this.prev && this.prev.goal) {
       const oldGoals = goalsCache.getProofView(this.prev.goal);
       return diff.diffProofView(oldGoals, newGoals);
     }
     return newGoals;
   }  
 
+  /** @returns the goals of this state, highlighting their differences from the goals of `base` */
+  public getGoalComparedTo(base: State, goalsCache: GoalsCache) : ProofView|null {
+    if(!this.goal || !base.goal)
+      return null;
+    const newGoals = {...goalsCache.getProofView(this.goal), focus: this.textRange.end};
+    return diff.diffProofView(goalsCache.getProofView(base.goal), newGoals);
+  }
+
   private translateDiagnostic(d : CoqDiagnosticInternal, delta: textUtil.RangeDelta) : void {
     if (d.range) {
       d.range = textUtil.rangeDeltaTranslate(d.range, delta);
     }
   }
 
+  private translateGlobs(delta: textUtil.RangeDelta) : void {
+    this.globs.forEach((g) => g.range = textUtil.rangeDeltaTranslate(g.range, delta));
+  }
+
   /**
    * Applies the textual changes to the sentence
    * @return false if the change has invalidated the sentence; true if preserved
@@ -227,6 +295,7 @@ export class State {
           newRange = textUtil.rangeDeltaTranslate(newRange,delta);
           var translate = this.translateDiagnostic;
           this.diagnostics.forEach(function(d) { translate(d,delta); });
+          this.translateGlobs(delta);
           continue change;
         case parser.SentenceRangeContainment.After:
           if(textUtil.positionIsEqual(this.textRange.end, change.range.start))
@@ -249,6 +318,7 @@ export class State {
 
           var translate = this.translateDiagnostic;
           this.diagnostics.forEach(function(d) { translate(d,delta); });
+          this.translateGlobs(delta);
       } // switch
     } // change: for
 
@@ -343,17 +413,57 @@ export class State {
         this.status |= StateStatusFlags.Error;
       }
       this.status &= ~StateStatusFlags.Processing;
-      const sentRange = this.getRange();
-      const sentText = this.getText();
-      d.range =
-        Range.create(
-          textUtil.positionAtRelativeCNL(sentRange.start, sentText, location.start),
-          textUtil.positionAtRelativeCNL(sentRange.start, sentText, location.stop))
+      d.range = this.locationToRange(location);
     }
     this.diagnostics.push(d);
     return d.range;
   }
 
+  /** @param location: offset range within this sentence */
+  private locationToRange(location: coqProto.Location) : Range {
+    const sentRange = this.getRange();
+    const sentText = this.getText();
+    return Range.create(
+      textUtil.positionAtRelativeCNL(sentRange.start, sentText, location.start),
+      textUtil.positionAtRelativeCNL(sentRange.start, sentText, location.stop));
+  }
+
+  /** Records a name that coqtop has resolved within this sentence */
+  public pushGlobFeedback(feedback: coqProto.GlobReference|coqProto.GlobDefinition) {
+    if(feedback.feedbackKind === "glob-ref")
+      this.globs.push({
+        range: this.locationToRange(feedback.location),
+        role: "reference",
+        library: feedback.filePath,
+        path: feedback.modulePath === "<>" ? "" : feedback.modulePath,
+        ident: feedback.identity,
+        type: feedback.type,
+      });
+    else
+      this.globs.push({
+        range: this.locationToRange(feedback.location),
+        role: "definition",
+        library: null,
+        path: feedback.secPath === "<>" ? "" : feedback.secPath,
+        ident: feedback.identity,
+        type: feedback.type,
+      });
+  }
+
+  public getGlobs() : GlobSymbol[] {
+    return this.globs;
+  }
+
+  /** Records a library that coqtop has loaded while processing this sentence */
+  public addLoadedModule(filename: string, module: string) {
+    if(this.loadedModules.every((m) => m.getModuleFileName() !== filename))
+      this.loadedModules.push(new LoadModule(filename, module));
+  }
+
+  public getLoadedModules() : LoadModule[] {
+    return this.loadedModules;
+  }
+
   public getDiagnostics() : CoqDiagnostic[] {
     const range = this.getRange();
     return this.diagnostics.map(function(d) { return Object.assign(d, {sentence: range})});
@@ -0,0 +1,37 @@
+import {Range} from 'vscode-languageserver';
+import * as parser from '../parsing/coq-parser';
+import {SentenceTiming, ProofTiming, TimingReport} from '../protocol';
+
+/**
+ * Sorts the processed sentences by cost and sums the cost of each proof, from its statement through `Qed`
+ * @param sentences the processed sentences, in document order; the time of those checked by a worker is `null`
+ */
+export function createTimingReport(sentences: Iterable<{text: string, range: Range, time: number|null}>) : TimingReport {
+  const sentenceTimings : SentenceTiming[] = [];
+  const proofs : ProofTiming[] = [];
+  let proof : ProofTiming|null = null;
+  for(let sent of sentences) {
+    const command = parser.normalizeText(sent.text).trim();
+    if(sent.time !== null)
+      sentenceTimings.push({range: sent.range, command: command, time: sent.time});
+    const name = parser.proofName(command);
+    if(name !== null)
+      proof = {name: name, range: Range.create(sent.range.start, sent.range.end), time: 0, sentences: 0, delegated: false};
+    if(proof) {
+      proof.range.end = sent.range.end;
+      if(sent.time !== null)
+        proof.time += sent.time;
+      else
+        proof.delegated = true;
+      ++proof.sentences;
+    }
+    if(proof && parser.isProofEnd(command)) {
+      proofs.push(proof);
+      proof = null;
+    }
+  }
+  return {
+    sentences: sentenceTimings.sort((x,y) => y.time - x.time),
+    proofs: proofs.sort((x,y) => y.time - x.time),
+  };
+}
@@ -431,6 +431,46 @@ export function diffText(oldText: AnnotatedText, newText: AnnotatedText, normali
 }
 
 
+/** The tags with which coqtop marks the differences between proof states when `Diffs` is on */
+const nativeDiffScopes = new Map<string,"added"|"removed">([["diff.added", "added"], ["diff.removed", "removed"]]);
+/** Mark the lines that contain differences; the differences themselves are tagged as well */
+const nativeDiffLineScopes = ["diff.added.bg", "diff.removed.bg"];
+
+/**
+ * Converts the diff tags of coqtop into diff annotations, as produced by `diffText`
+ */
+export function annotateNativeDiffs(text: AnnotatedText, diff?: "added"|"removed") : AnnotatedText {
+  if(typeof text === 'string')
+    return diff ? {diff: diff, text: text} : text;
+  else if(text instanceof Array)
+    return append(...text.map(t => annotateNativeDiffs(t, diff)));
+  else if(isScopedText(text)) {
+    if(nativeDiffScopes.has(text.scope))
+      return annotateNativeDiffs(text.text, nativeDiffScopes.get(text.scope));
+    else if(nativeDiffLineScopes.includes(text.scope))
+      return annotateNativeDiffs(text.text, diff);
+    const result : ScopedText = {scope: text.scope, text: annotateNativeDiffs(text.text, diff)};
+    if(text.attributes)
+      result.attributes = text.attributes;
+    return result;
+  } else if(diff && !text.diff)
+    return {...text, diff: diff};
+  else
+    return text;
+}
+
+/** @returns whether any part of `text` is annotated as added or removed */
+export function hasDiff(text: AnnotatedText) : boolean {
+  if(typeof text === 'string')
+    return false;
+  else if(text instanceof Array)
+    return text.some(hasDiff);
+  else if(isScopedText(text))
+    return hasDiff(text.text);
+  else
+    return text.diff !== undefined;
+}
+
 export function append(...texts: AnnotatedText[]) : AnnotatedText {
   const results : (string|TextAnnotation|ScopedText)[] = [];
   for(let txt of texts) {
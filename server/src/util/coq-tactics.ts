@@ -0,0 +1,16 @@
+/** Tactics of the standard distribution of Coq, offered for completion within proofs */
+export const tactics : string[] = [
+  "abstract", "absurd", "admit", "apply", "assert", "assumption", "auto", "autorewrite",
+  "case", "case_eq", "cbn", "cbv", "change", "clear", "clearbody", "compute", "congruence",
+  "constructor", "contradict", "contradiction", "cut", "cycle", "decide equality", "decompose",
+  "dependent destruction", "dependent induction", "destruct", "discriminate", "do", "eapply",
+  "eassumption", "easy", "eauto", "econstructor", "edestruct", "eexact", "eexists", "eleft",
+  "elim", "enough", "epose", "eright", "erewrite", "esplit", "exact", "exfalso", "exists",
+  "f_equal", "field", "field_simplify", "first", "firstorder", "fix", "fold", "generalize",
+  "give_up", "hnf", "idtac", "induction", "injection", "instantiate", "intro", "intros",
+  "intuition", "inversion", "inversion_clear", "lazy", "left", "lia", "lra", "move", "nia",
+  "now", "pattern", "pose", "pose proof", "progress", "red", "reflexivity", "refine",
+  "remember", "rename", "repeat", "replace", "revert", "rewrite", "right", "ring",
+  "ring_simplify", "set", "shelve", "simpl", "simple apply", "solve", "specialize", "split",
+  "subst", "symmetry", "tauto", "transitivity", "trivial", "try", "unfold", "unshelve",
+];
@@ -1,5 +1,6 @@
 import * as nfs from 'fs'
 import * as nzlib from 'zlib'
+import * as nchild_process from 'child_process'
 
 export namespace fs {
   export function open(path: string|Buffer, flags: string|number) : Promise<number> {
@@ -55,6 +56,42 @@ export namespace fs {
       nfs.exists(path, (ex) => resolve(ex));
     });
   }
+
+  export function readdir(path: string) : Promise<nfs.Dirent[]> {
+    return new Promise<nfs.Dirent[]>((resolve,reject) => {
+      nfs.readdir(path, {withFileTypes: true}, (err,entries) => {
+        if(err)
+          reject(err);
+        else
+          resolve(entries);
+      });
+    });
+  }
+
+  export function stat(path: string) : Promise<nfs.Stats> {
+    return new Promise<nfs.Stats>((resolve,reject) => {
+      nfs.stat(path, (err,stats) => {
+        if(err)
+          reject(err);
+        else
+          resolve(stats);
+      });
+    });
+  }
+}
+
+export namespace child_process {
+  /** Runs `file` and resolves to its standard output */
+  export function execFile(file: string, args: string[]) : Promise<string> {
+    return new Promise<string>((resolve,reject) => {
+      nchild_process.execFile(file, args, (err,stdout) => {
+        if(err)
+          reject(err);
+        else
+          resolve(stdout);
+      });
+    });
+  }
 }
 
 
@@ -348,3 +348,8 @@ export function positionTranslateRelative(absPos: Position, relPos: Position) {
 export function rangeTranslateRelative(absPos: Position, relRange: Range) {
   return Range.create(positionTranslateRelative(absPos, relRange.start), positionTranslateRelative(absPos, relRange.end))
 }
+
+/** @returns the offset into the UTF-8 encoding of text that corresponds to the character offset */
+export function byteOffsetOfCharacterOffset(text: string, offset: number) : number {
+  return Buffer.byteLength(text.substring(0, offset), 'utf8');
+}
@@ -1,7 +1,14 @@
 // The module 'assert' provides assertion methods from node
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as url from 'url';
 
 import {CoqProject} from '../src/CoqProject';
+import {CoqDocument} from '../src/document';
+import {Settings, CoqSettings, CoqTopSettings} from '../src/protocol';
+import {dummyConsole, dummyDocumentCallbacks} from './dummies';
 
 interface ICoqProject {
   parseCoqProject(text: string) : string[];
@@ -47,4 +54,61 @@ describe("CoqProject", function() {
     assertArgs("-arg foo -byte\n-R aaa bbb\n-o file -R ccc ddd\nsome.v\ntest.v", ['foo', '-R', 'aaa', 'bbb','-R', 'ccc', 'ddd']);
     assertArgs("-R . mindless\n-arg -impredicative-set\nutils.v\nhypiter.v", ["-R", ".", "mindless", "-impredicative-set"])
   })
+
+  describe('getWorkspaceAssumptions', function() {
+    let root : string;
+
+    beforeEach(function() {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'vscoq-test-'));
+      fs.writeFileSync(path.join(root, 'Open.v'), "Axiom saved : False.\n");
+      fs.writeFileSync(path.join(root, 'Closed.v'), "Lemma closed : True.\nAdmitted.\n");
+    })
+
+    afterEach(function() {
+      fs.unlinkSync(path.join(root, 'Open.v'));
+      fs.unlinkSync(path.join(root, 'Closed.v'));
+      fs.rmdirSync(root);
+    })
+
+    const settings : Settings = {
+      coq: {loadCoqProject: false} as CoqSettings,
+      coqtop: {args: [], binPath: "", startOn: "interaction"} as CoqTopSettings,
+    };
+    let project : CoqProject;
+
+    afterEach(function() {
+      project.shutdown();
+    })
+
+    /** Opens the documents, given by their uri and text, in a project of the workspace */
+    async function openProject(documents: {[uri: string]: string}) : Promise<CoqDocument[]> {
+      project = new CoqProject(root, {console: dummyConsole});
+      await project.updateSettings(settings);
+      const opened : CoqDocument[] = [];
+      for(const uri in documents)
+        opened.push(await project.open({uri: uri, languageId: "coq", version: 1, text: documents[uri]}, dummyDocumentCallbacks));
+      return opened;
+    }
+
+    it('scans the open documents as edited and the others as saved', async function() {
+      const openUri = url.pathToFileURL(path.join(root, 'Open.v')).toString();
+      await openProject({
+        [openUri]: "Axiom edited : False.",
+        "untitled:Untitled-1": "Lemma draft : True.\nAdmitted.",
+      });
+      const results = await project.getWorkspaceAssumptions();
+      assert.deepStrictEqual(results.map(r => [r.uri, r.assumptions.map(a => a.name)]).sort(), [
+        [openUri, ["edited"]],
+        [url.pathToFileURL(path.join(root, 'Closed.v')).toString(), ["closed"]],
+        ["untitled:Untitled-1", ["draft"]],
+      ].sort());
+    })
+
+    it('skips an open document that cannot be scanned', async function() {
+      const [untitled] = await openProject({"untitled:Untitled-1": "Axiom draft : False."});
+      untitled.getAssumptions = () => { throw new Error("oops") };
+      const results = await project.getWorkspaceAssumptions();
+      assert.deepStrictEqual(results.map(r => path.basename(url.fileURLToPath(r.uri))).sort(), ["Closed.v", "Open.v"]);
+    })
+  })
 });
\ No newline at end of file
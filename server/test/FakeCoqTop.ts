@@ -0,0 +1,313 @@
+import * as semver from 'semver';
+
+import * as coqProto from '../src/coqtop/coq-proto';
+import * as coqtop from '../src/coqtop/CoqTop';
+import {Interrupted, CallFailure} from '../src/coqtop/CoqTop';
+
+/** How the fake coqtop responds to the commands that match a rule */
+export interface FakeBehaviour {
+  /** Add fails with this message and no state is created */
+  fail?: string;
+  /** Offsets of the failure w.r.t. the start of the command */
+  failLocation?: coqProto.Location;
+  /** The failure asks to go back to the state on which the command was added */
+  fallback?: boolean;
+  /** An error that is sent as feedback once the state has been added, like the error of a proof checked by a worker */
+  error?: string;
+  /** When to send the status feedback of the new state; `before-value` sends it before the state id is returned. @default `"after-value"` */
+  feedback?: "before-value" | "after-value" | "none";
+  /** The status sent as feedback. @default `Processed` */
+  status?: coqProto.SentenceStatus;
+  /** The command is delegated to this worker: its status is `ProcessingInWorker` until `finishWorker` reports it processed */
+  worker?: string;
+  /** Also sends status feedback for a state id that is never assigned */
+  strayFeedback?: number;
+  /** Add does not return until coqtop is interrupted */
+  hang?: boolean;
+  /** The command starts a proof. @default it starts with `Goal`, `Lemma`, `Theorem`, ... */
+  opensProof?: boolean;
+  /** The command ends a proof. @default it is `Qed.`, `Defined.`, `Admitted.` or `Abort.` */
+  closesProof?: boolean;
+  /** The goal of the proof after the command. @default the goal before the command, or `?Goal` */
+  goal?: string;
+}
+
+/** How the fake coqtop answers the queries that match a rule */
+export interface FakeQueryAnswer {
+  /** The messages that the query prints */
+  output?: string[];
+  /** The query fails with this message */
+  fail?: string;
+}
+
+interface FakeState {
+  parent: number;
+  command: string;
+  goal?: string;
+}
+
+interface FakeProof {
+  start: number;
+  qed?: number;
+}
+
+const OPENS_PROOF = /^\s*(Goal|Lemma|Theorem|Example|Fact|Remark|Corollary|Proposition)\b/;
+const CLOSES_PROOF = /^\s*(Qed|Defined|Admitted|Abort)\s*\.\s*$/;
+
+/**
+ * An in-process coqtop that simulates state ids, Add/Edit_at (including the focus of closed proofs),
+ * the ordering of asynchronous feedback, failures and interrupts, as configured by rules.
+ * Every call is logged in `calls`.
+ */
+export class FakeCoqTop extends coqtop.CoqTop {
+  public readonly calls : string[] = [];
+  private rules : {pattern: RegExp, behaviour: FakeBehaviour}[] = [];
+  private queries : {pattern: RegExp, answer: FakeQueryAnswer}[] = [];
+  private inductives = new Map<string, string[][]>();
+  private states = new Map<number, FakeState>();
+  private proofs : FakeProof[] = [];
+  private openProof : FakeProof|null = null;
+  private focus : {proof: FakeProof, oldTip: number}|null = null;
+  private tip = 0;
+  private nextStateId = 1;
+  private running = false;
+  private interruptAdd : (() => void)|null = null;
+  private pendingFeedback : Promise<void>[] = [];
+  /** The states delegated to each worker that it has not reported processed yet */
+  private delegated = new Map<string, number[]>();
+
+  /** Commands that match `pattern` behave as described; the first matching rule wins */
+  public rule(pattern: RegExp|string, behaviour: FakeBehaviour) : this {
+    this.rules.push({pattern: typeof pattern === 'string' ? new RegExp(pattern) : pattern, behaviour: behaviour});
+    return this;
+  }
+
+  /** Queries that match `pattern` are answered as described; the first matching rule wins */
+  public query(pattern: RegExp|string, answer: FakeQueryAnswer) : this {
+    this.queries.push({pattern: typeof pattern === 'string' ? new RegExp(pattern) : pattern, answer: answer});
+    return this;
+  }
+
+  /** MkCases answers `cases` for `inductive`; the other inductives have no constructors */
+  public inductive(inductive: string, cases: string[][]) : this {
+    this.inductives.set(inductive, cases);
+    return this;
+  }
+
+  /** Resolves once the feedback that was sent after a call has been delivered */
+  public async flush() : Promise<void> {
+    while(this.pendingFeedback.length > 0)
+      await Promise.all(this.pendingFeedback.splice(0));
+  }
+
+  /** Reports the states delegated to `worker` as processed, in the order they were added */
+  public finishWorker(worker: string) {
+    (this.delegated.get(worker) || []).forEach(stateId => this.sendStatus(stateId, coqProto.SentenceStatus.Processed, worker));
+    this.delegated.delete(worker);
+  }
+
+  /** Whether an Add is waiting to be interrupted */
+  public isHanging() : boolean {
+    return this.interruptAdd !== null;
+  }
+
+  public dispose() {
+    this.running = false;
+  }
+
+  public isRunning() {
+    return this.running;
+  }
+
+  public isConnected() {
+    return this.running;
+  }
+
+  public getVersion() {
+    return semver.coerce("8.12.0");
+  }
+
+  public async startCoq() {
+    this.running = true;
+    return await this.coqInit();
+  }
+
+  public async coqInterrupt() {
+    this.calls.push("Interrupt");
+    if(!this.interruptAdd)
+      return false;
+    this.interruptAdd();
+    return true;
+  }
+
+  public async coqInit() {
+    this.calls.push("Init");
+    const stateId = this.nextStateId++;
+    this.states.set(stateId, {parent: 0, command: ""});
+    this.tip = stateId;
+    return {stateId: stateId};
+  }
+
+  public async coqQuit() {
+    this.calls.push("Quit");
+    this.running = false;
+  }
+
+  public async coqGoal() : Promise<coqtop.GoalResult> {
+    this.calls.push("Goal");
+    if(!this.openProof)
+      return {mode: 'no-proof'};
+    return {
+      mode: 'proof',
+      goals: [{id: this.tip, hypotheses: [], goal: this.states.get(this.tip).goal || "?Goal"}],
+      backgroundGoals: null,
+      shelvedGoals: [],
+      abandonedGoals: [],
+    };
+  }
+
+  public async coqEvars() { return [] }
+  public async coqHints() { return null }
+  public async getStatus(force: boolean) { return {path: [], allProofs: [], proofNumber: 0} }
+
+  public async coqAddCommand(command: string, editId: number, stateId: number, verbose?: boolean) : Promise<coqtop.AddResult> {
+    this.calls.push(`Add(${stateId}, ${command.trim()})`);
+    if(stateId !== this.tip)
+      throw new CallFailure(`Fake coqtop: cannot add a command on ${stateId}, which is not the tip (${this.tip})`);
+    const behaviour = this.behaviourOf(command);
+
+    if(behaviour.hang) {
+      await new Promise<void>((resolve, reject) => this.interruptAdd = () => {
+        this.interruptAdd = null;
+        reject(new Interrupted(stateId));
+      });
+    }
+
+    if(behaviour.fail !== undefined)
+      throw new CallFailure(behaviour.fail, behaviour.fallback ? stateId : undefined, behaviour.failLocation);
+
+    const newStateId = this.nextStateId++;
+    this.states.set(newStateId, {parent: stateId, command: command, goal: behaviour.goal !== undefined ? behaviour.goal : this.states.get(stateId).goal});
+    this.tip = newStateId;
+
+    let unfocusedStateId : number|undefined = undefined;
+    const opensProof = behaviour.opensProof !== undefined ? behaviour.opensProof : OPENS_PROOF.test(command);
+    const closesProof = behaviour.closesProof !== undefined ? behaviour.closesProof : CLOSES_PROOF.test(command);
+    if(opensProof && !this.openProof)
+      this.openProof = {start: newStateId};
+    else if(closesProof && this.openProof) {
+      this.openProof.qed = newStateId;
+      this.proofs.push(this.openProof);
+      this.openProof = null;
+      if(this.focus) {
+        unfocusedStateId = this.focus.oldTip;
+        this.tip = this.focus.oldTip;
+        this.focus = null;
+      }
+    }
+
+    const worker = behaviour.worker !== undefined ? behaviour.worker : "master";
+    const status = behaviour.worker !== undefined ? coqProto.SentenceStatus.ProcessingInWorker : behaviour.status;
+    if(behaviour.worker !== undefined)
+      this.delegated.set(worker, [...(this.delegated.get(worker) || []), newStateId]);
+    if(behaviour.strayFeedback !== undefined)
+      this.sendStatus(behaviour.strayFeedback, behaviour.status);
+    if(behaviour.feedback === "before-value")
+      this.sendStatus(newStateId, status, worker);
+    else if(behaviour.feedback !== "none")
+      this.later(() => this.sendStatus(newStateId, status, worker));
+    if(behaviour.error !== undefined)
+      this.later(() => this.sendFeedback(newStateId, {feedbackKind: "message", level: coqProto.MessageLevel.Error, message: behaviour.error}));
+
+    return {stateId: newStateId, message: "", unfocusedStateId: unfocusedStateId};
+  }
+
+  public async coqEditAt(stateId: number) : Promise<coqtop.EditAtResult> {
+    this.calls.push(`EditAt(${stateId})`);
+    if(!this.states.has(stateId))
+      throw new CallFailure(`Fake coqtop: unknown state ${stateId}`);
+
+    const proof = this.proofs.find(p => this.isAncestor(p.start, stateId) && stateId !== p.qed && this.isAncestor(stateId, p.qed) && this.isAncestor(p.qed, this.tip));
+    if(proof && !this.focus) {
+      // Jumping inside a closed proof: only the sentences of the proof are cancelled
+      const oldTip = this.tip;
+      for(let id = this.states.get(proof.qed).parent; id !== stateId; ) {
+        const parent = this.states.get(id).parent;
+        this.states.delete(id);
+        id = parent;
+      }
+      this.states.get(proof.qed).parent = stateId;
+      this.proofs = this.proofs.filter(p => p !== proof);
+      this.openProof = {start: proof.start};
+      this.focus = {proof: proof, oldTip: oldTip};
+      this.tip = stateId;
+      return {enterFocus: {stateId: stateId, qedStateId: proof.qed, oldStateIdTip: oldTip}};
+    }
+
+    for(const id of Array.from(this.states.keys())) {
+      if(id !== stateId && this.isAncestor(stateId, id))
+        this.states.delete(id);
+    }
+    // The proof whose end was cancelled, if any, is open again
+    const reopened = this.proofs.concat(this.openProof ? [this.openProof] : [])
+      .find(p => this.states.has(p.start) && !this.states.has(p.qed));
+    this.proofs = this.proofs.filter(p => this.states.has(p.qed));
+    this.openProof = reopened ? {start: reopened.start} : null;
+    this.focus = null;
+    this.tip = stateId;
+    return {};
+  }
+
+  public async coqLtacProfilingResults(stateId?: number, routeId?: number) {}
+  public async coqResizeWindow(columns: number) {}
+  public async coqQuery(query: string, stateId?: number, routeId?: number) {
+    this.calls.push(`Query(${stateId}, ${query})`);
+    const rule = this.queries.find(q => q.pattern.test(query));
+    if(!rule)
+      return;
+    if(rule.answer.fail !== undefined)
+      throw new CallFailure(rule.answer.fail);
+    // The output is sent on the route of the query before the query returns
+    for(const output of rule.answer.output || [])
+      this.sendFeedback(stateId, {feedbackKind: "message", level: coqProto.MessageLevel.Notice, message: output}, routeId);
+  }
+  public async coqSearch(constraints: coqProto.SearchConstraint[]) { return [] }
+  public async coqMkCases(inductive: string) {
+    this.calls.push(`MkCases(${inductive})`);
+    return this.inductives.get(inductive) || [];
+  }
+  public async coqStopWorker(worker: string) {}
+  public async coqGetOptions(options: coqtop.CoqOptions) {}
+  public async coqSetOptions(options: coqtop.CoqOptions) {}
+
+  private behaviourOf(command: string) : FakeBehaviour {
+    const rule = this.rules.find(r => r.pattern.test(command));
+    return rule ? rule.behaviour : {};
+  }
+
+  /** Whether `ancestor` is `stateId` or one of its ancestors */
+  private isAncestor(ancestor: number, stateId: number) : boolean {
+    for(let id = stateId; id; id = this.states.has(id) ? this.states.get(id).parent : 0) {
+      if(id === ancestor)
+        return true;
+    }
+    return false;
+  }
+
+  private later(send: () => void) {
+    this.pendingFeedback.push(new Promise<void>(resolve => setImmediate(() => {
+      if(this.running)
+        send();
+      resolve();
+    })));
+  }
+
+  private sendStatus(stateId: number, status = coqProto.SentenceStatus.Processed, worker = "master") {
+    this.sendFeedback(stateId, {feedbackKind: "sentence-status", status: status, worker: worker, inProgressDelta: 0});
+  }
+
+  private sendFeedback(stateId: number, content: coqProto.FeedbackContent, route = 0) {
+    if(this.callbacks.onFeedback)
+      this.callbacks.onFeedback({objectId: {objectKind: "stateid", stateId: stateId}, route: route, ...content} as coqProto.StateFeedback);
+  }
+}
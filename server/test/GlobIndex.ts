@@ -0,0 +1,62 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode-languageserver';
+
+import {GlobIndex, libraryMatchesRequire} from '../src/GlobIndex';
+
+describe("GlobIndex", function() {
+  let root : string;
+  let index : GlobIndex;
+
+  function writeFile(file: string, text: string) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), {recursive: true});
+    fs.writeFileSync(path.join(root, file), text);
+  }
+
+  beforeEach(function() {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "glob-index-"));
+    // "ℕ" is three bytes in UTF-8
+    writeFile("src/A.v", "(* ℕ *) Definition foo := 0.\n");
+    writeFile("src/A.glob", "DIGEST x\nFLib.A\ndef 20:22 <> foo\n");
+    writeFile("src/sub/B.v", "Definition bar := A.foo.\nCheck A.foo.\n");
+    writeFile("src/sub/B.glob", "DIGEST x\nFLib.sub.B\ndef 11:13 <> bar\nR18:22 Lib.A <> foo def\nR31:35 Lib.A <> foo def\n");
+    index = new GlobIndex([{physical: path.join(root, "src"), logical: "Lib"}], path.join(root, "no-coqtop"));
+  })
+
+  afterEach(function() {
+    fs.rmdirSync(root, {recursive: true});
+  })
+
+  it("findDefinition", async function() {
+    assert.deepStrictEqual(await index.findDefinition(path.join(root, "src/sub/B.v"), 20),
+      vscode.Location.create("file://" + path.join(root, "src/A.v"), vscode.Range.create(0,18,0,21)));
+    assert.deepStrictEqual(await index.findDefinition(path.join(root, "src/sub/B.v"), 3), null);
+  })
+
+  it("findReferences", async function() {
+    const b = "file://" + path.join(root, "src/sub/B.v");
+    assert.deepStrictEqual(await index.findReferences(path.join(root, "src/A.v"), 21, false), [
+      vscode.Location.create(b, vscode.Range.create(0,18,0,23)),
+      vscode.Location.create(b, vscode.Range.create(1,6,1,11)),
+    ]);
+    assert.equal((await index.findReferences(path.join(root, "src/sub/B.v"), 33, true)).length, 3);
+  })
+
+  it("libraryMatchesRequire", function() {
+    assert.equal(libraryMatchesRequire("Lib.sub.B", "B", null), true);
+    assert.equal(libraryMatchesRequire("Lib.sub.B", "sub.B", "Lib"), true);
+    assert.equal(libraryMatchesRequire("Lib.sub.B", "B", "Lib.sub"), true);
+    assert.equal(libraryMatchesRequire("Lib.sub.B", "A", null), false);
+    assert.equal(libraryMatchesRequire("Lib.sub.B", "B", "Coq"), false);
+    assert.equal(libraryMatchesRequire("Lib.B", "Lib.B", "Lib"), false);
+  })
+
+  it("findLibrarySource", async function() {
+    assert.equal(await index.findLibrarySource("A", "Lib"), path.join(root, "src/A.v"));
+    assert.equal(await index.findLibrarySource("sub.B", null), path.join(root, "src/sub/B.v"));
+    assert.equal(await index.findLibrarySource("C", null), null);
+  })
+});
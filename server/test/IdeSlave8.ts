@@ -0,0 +1,43 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+import * as stream from 'stream';
+
+import {IdeSlave} from '../src/coqtop/IdeSlave8';
+import {CallFailure} from '../src/coqtop/CoqTop';
+import {dummyConsole} from './dummies';
+
+/** Connected to streams instead of coqidetop; `calls` collects what is written to its main channel */
+class TestIdeSlave extends IdeSlave {
+  public calls = "";
+
+  constructor(version: string) {
+    super(dummyConsole);
+    const mainW = new stream.PassThrough();
+    const control = new stream.PassThrough();
+    mainW.setEncoding('utf8');
+    mainW.on('data', (data: string) => this.calls += data);
+    this.connect(version, new stream.PassThrough(), mainW, control, control);
+  }
+}
+
+describe("IdeSlave8", function() {
+  let coq : TestIdeSlave;
+  afterEach(function() {
+    coq.dispose();
+  })
+
+  it("refuses to turn on the Ltac debugger", async function() {
+    coq = new TestIdeSlave("8.15.0");
+    for(const command of ["Set Ltac Debug.", "Local Set  Ltac Debug .", "#[local] Set Ltac Debug.", "(* trace *) Set Ltac Debug."])
+      await assert.rejects(coq.coqAddCommand(command, 1, 1), (err) => err instanceof CallFailure && /Ltac debugger/.test(err.message.toString()));
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(coq.calls, "");
+  })
+
+  it("adds the commands that trace Ltac without the debugger", async function() {
+    coq = new TestIdeSlave("8.15.0");
+    coq.coqAddCommand("Set Ltac Batch Debug.", 1, 1).catch(() => {});
+    await new Promise(resolve => setImmediate(resolve));
+    assert.ok(coq.calls.includes("<string>Set Ltac Batch Debug.</string>"));
+  })
+});
@@ -0,0 +1,82 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {CallFailure, CoqtopSpawnError} from '../src/coqtop/CoqTop';
+import {ReplayCoqTop} from '../src/coqtop/ReplayCoqTop';
+import {SessionEvent, SessionRecorder, parseSession, readSession} from '../src/coqtop/SessionRecording';
+import {dummyConsole} from './dummies';
+
+describe("ReplayCoqTop", function() {
+  const session : SessionEvent[] = [
+    {time: 0, kind: "version", data: "8.12.0"},
+    {time: 1, kind: "call", data: '<call val="Init"><option val="none"/></call>'},
+    {time: 2, kind: "response", data: '<value val="good"><state_id val="1"/></value>'},
+    {time: 3, kind: "call", data: '<call val="Add"><pair><pair><string>Goal True.</string><int>-1</int></pair><pair><state_id val="1"/><bool val="true"/></pair></pair></call>'},
+    {time: 4, kind: "response", data: '<value val="good"><pair><state_id val="2"/>'},
+    {time: 5, kind: "response", data: '<pair><union val="in_l"><unit/></union><string></string></pair></pair></value>'},
+  ];
+
+  it("parseSession", function() {
+    assert.deepStrictEqual(parseSession('{"time":0,"kind":"version","data":"8.12.0"}\n\n{"time":3,"kind":"call","data":"<call/>"}\n'), [
+      {time: 0, kind: "version", data: "8.12.0"},
+      {time: 3, kind: "call", data: "<call/>"},
+    ]);
+  })
+
+  it("SessionRecorder", async function() {
+    const file = path.join(os.tmpdir(), `vscoq-test-${process.pid}.coqsession`);
+    const recorder = new SessionRecorder(file, "8.12.0");
+    recorder.call("<call/>");
+    recorder.response("<value");
+    await recorder.dispose();
+    const events = await readSession(file);
+    fs.unlinkSync(file);
+    assert.deepStrictEqual(events.map(e => [e.kind, e.data]), [["version", "8.12.0"], ["call", "<call/>"], ["response", "<value"]]);
+  })
+
+  it("replays the recorded responses", async function() {
+    const coqtop = new ReplayCoqTop(session, dummyConsole);
+    assert.deepStrictEqual(await coqtop.startCoq(), {stateId: 1});
+    assert.equal(coqtop.getVersion().format(), "8.12.0");
+    const result = await coqtop.coqAddCommand("Goal True.", -1, 1, true);
+    assert.equal(result.stateId, 2);
+    assert.equal(result.unfocusedStateId, undefined);
+    coqtop.dispose();
+    assert.ok(!coqtop.isRunning());
+  })
+
+  it("reads the session to replay from a file", async function() {
+    const file = path.join(os.tmpdir(), `vscoq-test-replay-${process.pid}.coqsession`);
+    fs.writeFileSync(file, session.map(e => JSON.stringify(e)).join('\n'));
+    const coqtop = new ReplayCoqTop(file, dummyConsole);
+    try {
+      assert.deepStrictEqual(await coqtop.startCoq(), {stateId: 1});
+      assert.equal((await coqtop.coqAddCommand("Goal True.", -1, 1, true)).stateId, 2);
+    } finally {
+      coqtop.dispose();
+      fs.unlinkSync(file);
+    }
+  })
+
+  it("fails to start when the session file is missing", async function() {
+    const coqtop = new ReplayCoqTop(path.join(os.tmpdir(), "vscoq-no-such-session.coqsession"), dummyConsole);
+    await assert.rejects(coqtop.startCoq(), (err) => err instanceof CoqtopSpawnError);
+  })
+
+  it("fails on a diverging call", async function() {
+    const coqtop = new ReplayCoqTop(session, dummyConsole);
+    await coqtop.startCoq();
+    await assert.rejects(coqtop.coqAddCommand("Goal False.", -1, 1, true), (err) => err instanceof CallFailure);
+    coqtop.dispose();
+  })
+
+  it("fails after the end of the session", async function() {
+    const coqtop = new ReplayCoqTop(session.slice(0, 3), dummyConsole);
+    await coqtop.startCoq();
+    await assert.rejects(coqtop.coqAddCommand("Goal True.", -1, 1, true), (err) => err instanceof CallFailure);
+    coqtop.dispose();
+  })
+});
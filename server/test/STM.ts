@@ -3,10 +3,15 @@ import * as assert from 'assert';
 import * as vscode from 'vscode-languageserver';
 import * as vscrpc from 'vscode-jsonrpc';
 import * as semver from 'semver';
+import * as path from 'path';
 
 import {CoqStateMachine, StateMachineCallbacks} from '../src/stm/STM';
+import {createTimingReport} from '../src/stm/TimingReport';
 import {Settings, CoqSettings, CoqTopSettings} from '../src/protocol';
 import * as coqtop from '../src/coqtop/CoqTop';
+import {PrettifySymbolsMode} from '../src/util/PrettifySymbols';
+import {ReplayCoqTop} from '../src/coqtop/ReplayCoqTop';
+import {FakeCoqTop} from './FakeCoqTop';
 
 function getText(text: string, range?: vscode.Range) : string {
   const lines = text.split(/\r\n|\n\r|\n/);
@@ -33,12 +38,17 @@ class MockCoqTop extends coqtop.CoqTop {
   async coqInit () { return {stateId: 0} };
   async coqQuit () {};
   async coqGoal () : Promise<{ mode: 'no-proof' }> { return {mode: 'no-proof'} };
+  async coqEvars() { return [] };
+  async coqHints() { return null };
   async getStatus(force: boolean) { return {path: [], allProofs: [], proofNumber: 0} };
   async coqAddCommand(command: string, editId: number, stateId: number, verbose?: boolean) { return {stateId: ++this.currentState, message: ""} };
   async coqEditAt(stateId: number) { return {} };
   async coqLtacProfilingResults(stateId?: number, routeId?: number) {};
   async coqResizeWindow(columns: number) {};
   async coqQuery(query: string, stateId?: number, routeId?: number) { return; };
+  async coqSearch(constraints) { return [] };
+  async coqMkCases(inductive) { return [] };
+  async coqStopWorker(worker) {};
   async coqGetOptions(options) {};
   async coqSetOptions(options) {};
 }
@@ -74,6 +84,7 @@ describe("CoqStateMachine", function() {
     },
     getWorkspaceRoot: () => ".",
     settings: projectSettings,
+    getPrettifySymbols: () => new PrettifySymbolsMode([]),
   };
 
   const stmCallbacks : StateMachineCallbacks = {
@@ -84,6 +95,7 @@ describe("CoqStateMachine", function() {
     message() : void {},
     ltacProfResults() : void {},
     coqDied() : void {},
+    updateWorkers() : void {},
   }
 
 
@@ -127,4 +139,210 @@ describe("CoqStateMachine", function() {
     })
   })
 
+  describe('with a fake coqtop', function() {
+    let fake : FakeCoqTop;
+    let warnings : string[];
+    let statusUpdates : vscode.Range[];
+    let errors : string[];
+    let stm : CoqStateMachine;
+
+    beforeEach(function() {
+      fake = new FakeCoqTop();
+      warnings = [];
+      statusUpdates = [];
+      errors = [];
+      const quietProject = {...project, console: {...project.console, log() {}, warn: (msg: string) => { warnings.push(msg) }}};
+      stm = new CoqStateMachine(quietProject, () => fake, {
+        ...stmCallbacks,
+        sentenceStatusUpdate: (range) => { statusUpdates.push(range) },
+        error: (sentence, range, message) => { errors.push(message.toString()) },
+      });
+    })
+
+    afterEach(function() {
+      stm.dispose();
+    })
+
+    /** Lays out the sentences one after another on the first line */
+    function script(...texts: string[]) {
+      const commands : {text: string, range: vscode.Range}[] = [];
+      let offset = 0;
+      for(const text of texts) {
+        commands.push({text: text, range: range(0, offset, 0, offset + text.length)});
+        offset += text.length;
+      }
+      return {
+        sequence: (start: vscode.Position) => commands.filter(c => c.range.start.character >= start.character),
+        end: pos(0, offset),
+      };
+    }
+
+    it('applies status feedback that arrives before Add returns', async function() {
+      fake.rule(/Goal/, {feedback: "before-value"});
+      const s = script("Goal True.");
+      await stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      assert.deepStrictEqual(statusUpdates, [range(0,0,0,10)]);
+      assert.ok(stm.assertSentenceConsistency(), "Sentence states are inconsistent");
+    })
+
+    it('drops buffered feedback for unknown state ids', async function() {
+      fake.rule(/Goal/, {feedback: "before-value", strayFeedback: 42});
+      const s = script("Goal True.", " idtac.");
+      await stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      await fake.flush();
+      assert.equal(stm.getStatesText(), "Goal True. idtac.");
+      assert.deepStrictEqual(warnings, ["Received buffered feedback for unknown stateId: 42"]);
+      assert.ok(stm.assertSentenceConsistency(), "Sentence states are inconsistent");
+    })
+
+    it('reports a failed command and goes back to its fallback state', async function() {
+      fake.rule(/fail/, {fail: "Oops", failLocation: {start: 1, stop: 5}, fallback: true});
+      const s = script("Goal True.", " fail.", " idtac.");
+      const result = await stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      assert.equal(result.type, 'failure');
+      if(result.type === 'failure') {
+        assert.equal(result.message, "Oops");
+        assert.deepStrictEqual(result.range, range(0,11,0,15));
+      }
+      assert.deepStrictEqual(fake.calls, ["Init", "Add(1, Goal True.)", "Add(2, fail.)", "EditAt(2)"]);
+      assert.equal(stm.getStatesText(), "Goal True.");
+    })
+
+    it('reports errors sent as feedback', async function() {
+      fake.rule(/Qed/, {error: "Worker failed"});
+      const s = script("Goal True.", " admit.", " Qed.");
+      await stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      await fake.flush();
+      assert.deepStrictEqual(errors, ["Worker failed"]);
+    })
+
+    it('converts the goals of the proof view', async function() {
+      const s = script("Goal True.", " idtac.");
+      await stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      const result = await stm.getGoal();
+      assert.equal(result.type, 'proof-view');
+      if(result.type === 'proof-view') {
+        assert.deepStrictEqual(result.goals.map(g => g.goal), ["?Goal"]);
+        assert.deepStrictEqual(result.focus, pos(0,17));
+      }
+    })
+
+    it('only cancels the sentences of a closed proof when going back into it', async function() {
+      const s = script("Goal True.", " idtac.", " idtac.", " Qed.", " Check I.");
+      await stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      await stm.interpretToPoint(pos(0,17), s.sequence, false, false, cancellation.token);
+      assert.deepStrictEqual(fake.calls.slice(-1), ["EditAt(3)"]);
+      assert.equal(stm.getStatesText(), "Goal True. idtac. Qed. Check I.");
+      assert.deepStrictEqual(stm.getFocusedPosition(), pos(0,17));
+      assert.ok(stm.assertSentenceConsistency(), "Sentence states are inconsistent");
+    })
+
+    it('interrupts a command', async function() {
+      fake.rule(/loop/, {hang: true});
+      const s = script("Goal True.", " loop.");
+      const interpreting = stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      while(!fake.isHanging())
+        await new Promise(resolve => setImmediate(resolve));
+      await stm.interrupt();
+      await assert.rejects(interpreting, (err) => err instanceof coqtop.Interrupted);
+      assert.equal(stm.getStatesText(), "Goal True.");
+    })
+
+    it('only makes cases when Coq is ready and idle', async function() {
+      fake.inductive("bool", [["true"], ["false"]]);
+      assert.equal(await stm.makeCases("bool"), null);
+      fake.rule(/loop/, {hang: true});
+      const s = script("Goal True.", " loop.");
+      const interpreting = stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      while(!fake.isHanging())
+        await new Promise(resolve => setImmediate(resolve));
+      assert.equal(await stm.makeCases("bool"), null);
+      await stm.interrupt();
+      await assert.rejects(interpreting, (err) => err instanceof coqtop.Interrupted);
+      assert.ok(!fake.calls.some(call => /MkCases/.test(call)));
+      assert.deepStrictEqual(await stm.makeCases("bool"), [["true"], ["false"]]);
+      assert.deepStrictEqual(await stm.makeCases("False"), []);
+    })
+
+    it('does not time the sentences that a worker reports processed out of order', async function() {
+      fake.rule(/idtac|trivial/, {worker: "proofworker:0"});
+      const s = script("Lemma l : True.", " idtac.", " trivial.", " Qed.", " Check I.");
+      await stm.interpretToPoint(s.end, s.sequence, false, false, cancellation.token);
+      await fake.flush();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      fake.finishWorker("proofworker:0");
+      const timings = Array.from(stm.getSentenceTimings());
+      assert.deepStrictEqual(timings.map(t => t.time === null), [false, true, true, false, false]);
+      assert.ok(timings.every(t => t.time === null || t.time < 50), "a sentence absorbed the time of the worker");
+      const report = createTimingReport(timings);
+      assert.deepStrictEqual(report.proofs.map(p => [p.name, p.sentences, p.delegated]), [["l", 4, true]]);
+      assert.equal(report.sentences.length, 3);
+    })
+
+    it('lists the cached proof views of the proof at a position', async function() {
+      const s = script("Lemma l : True.", " idtac.", " idtac.", " trivial.", " Qed.", " Goal True.", " idtac.");
+      for(const end of [15, 22, 38, 43, 54, 61]) {
+        await stm.interpretToPoint(pos(0,end), s.sequence, false, false, cancellation.token);
+        await stm.getGoal();
+      }
+      // the proof view of the second `idtac.` was never asked for
+      const lemma = [range(0,0,0,15), range(0,15,0,22), range(0,29,0,38)];
+      assert.deepStrictEqual(stm.getProofTimeline(pos(0,24)), lemma);
+      assert.deepStrictEqual(stm.getProofTimeline(pos(0,40)), lemma);
+      assert.deepStrictEqual(stm.getProofTimeline(pos(0,50)), [range(0,43,0,54), range(0,54,0,61)]);
+    })
+
+    it('compares the cached proof views at two positions', async function() {
+      fake.rule(/Goal/, {goal: "B"});
+      fake.rule(/cut/, {goal: "A -> B"});
+      const s = script("Goal B.", " cut A.", " idtac.");
+      for(const end of [7, 14, 21]) {
+        await stm.interpretToPoint(pos(0,end), s.sequence, false, false, cancellation.token);
+        await stm.getGoal();
+      }
+      const compared = await stm.getCachedGoalComparison(pos(0,7), pos(0,21), "preceding");
+      assert.equal(compared.type, 'proof-view');
+      if(compared.type === 'proof-view') {
+        assert.deepStrictEqual(compared.focus, pos(0,21));
+        assert.deepStrictEqual(compared.goals[0].goal, [{text: "A -> ", diff: "added"}, "B"]);
+      }
+      const unchanged = await stm.getCachedGoalComparison(pos(0,14), pos(0,21), "preceding");
+      assert.ok(unchanged.type === 'proof-view' && unchanged.goals[0].goal === "A -> B");
+      assert.equal((await stm.getCachedGoalComparison(pos(0,0), pos(0,21), "preceding")).type, 'no-proof');
+    })
+  })
+
+  describe('replaying a recorded session', function() {
+    const sessionFile = path.join(__dirname, '../../../server/test/sessions/goal-true.coqsession');
+    let stm : CoqStateMachine;
+
+    beforeEach(function() {
+      const quietProject = {...project, console: {...project.console, log() {}}};
+      stm = new CoqStateMachine(quietProject, () => new ReplayCoqTop(sessionFile, quietProject.console), stmCallbacks);
+    })
+
+    afterEach(function() {
+      stm.dispose();
+    })
+
+    it('steps through a proof and shows its goals', async function() {
+      const commands = [
+        {text: "Goal True.", range: range(0,0,0,10)},
+        {text: " idtac.", range: range(0,10,0,17)},
+        {text: " exact I.", range: range(0,17,0,26)},
+        {text: " Qed.", range: range(0,26,0,31)},
+      ];
+      const sequence = (start: vscode.Position) => commands.filter(c => c.range.start.character >= start.character);
+      await stm.interpretToPoint(pos(0,17), sequence, false, false, cancellation.token);
+      const inProof = await stm.getGoal();
+      assert.equal(inProof.type, 'proof-view');
+      if(inProof.type === 'proof-view')
+        assert.deepStrictEqual(inProof.goals.map(g => g.goal), ["True"]);
+      await stm.interpretToPoint(pos(0,31), sequence, false, false, cancellation.token);
+      assert.equal(stm.getStatesText(), "Goal True. idtac. exact I. Qed.");
+      assert.equal((await stm.getGoal()).type, 'no-proof');
+      assert.ok(stm.assertSentenceConsistency(), "Sentence states are inconsistent");
+    })
+  })
+
 });
@@ -298,6 +298,43 @@ describe("Scopes", function() {
       ]);
     })
 
+    it("lookup honors sections and modules", function() {
+      function testLookup(idx: number, id: QualId, expectedSources: number[], expectedIds: QualId[]) {
+        const x = s[idx].scope.lookup(id, ScopeFlags.All);
+        assert.deepStrictEqual(x.map(r => s.indexOf(r.source)), expectedSources, `s[${idx}].lookup(${id.join('.')})`);
+        assert.deepStrictEqual(x.map(r => r.id), expectedIds, `s[${idx}].lookup(${id.join('.')})`);
+      }
+      testLookup(0, ['foo'], [0], [['foo']]);
+      testLookup(3, ['bar'], [2], [['bar']]);
+      testLookup(6, ['foo'], [5,0], [['M','foo'],['foo']]);
+      testLookup(6, ['M','foo'], [5], [['M','foo']]);
+      testLookup(7, ['bar'], [6,2], [['M','bar'],['bar']]);
+      testLookup(8, ['bar'], [8,6,2], [['bar'],['M','bar'],['bar']]);
+      testLookup(8, ['foo'], [5,0], [['M','foo'],['foo']]);
+      testLookup(8, ['M','foo'], [5], [['M','foo']]);
+      testLookup(8, ['M'], [4], [['M']]);
+      testLookup(8, ['A','bar'], [], []);
+    })
+
+    it("getVisibleSymbols", function() {
+      function visible(idx: number) {
+        return s[idx].scope.getVisibleSymbols(ScopeFlags.All).map(r => ({source: s.indexOf(r.source), id: r.id}));
+      }
+      assert.deepStrictEqual(visible(3), [{source: 2, id: ['bar']}, {source: 0, id: ['foo']}]);
+      assert.deepStrictEqual(visible(6), [{source: 6, id: ['bar']}, {source: 5, id: ['foo']}, {source: 4, id: ['M']}]);
+      assert.deepStrictEqual(visible(8), [
+        {source: 8, id: ['bar']}, {source: 6, id: ['M','bar']}, {source: 5, id: ['foo']},
+        {source: 4, id: ['M']}]);
+    })
+
+    it("getPrefixes", function() {
+      // `M` is created as an exported module, so its unqualified prefix is kept
+      assert.deepStrictEqual(s[0].scope.getPrefixes(), [[]]);
+      assert.deepStrictEqual(s[2].scope.getPrefixes(), [[]]);
+      assert.deepStrictEqual(s[5].scope.getPrefixes(), [[],['M']]);
+      assert.deepStrictEqual(s[8].scope.getPrefixes(), [[]]);
+    })
+
     it.skip("getPrefix", function() {
       function testGetPrefix(tests: [number,QualId][]) {
         tests.forEach(([idx,expected]) => assert.deepStrictEqual(s[idx].scope.getPrefixes(), expected, `s[${idx}].prefix === ${expected.toString()}`));
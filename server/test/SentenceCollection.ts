@@ -2,7 +2,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode-languageserver';
 
-import {SentenceCollection} from '../src/sentence-model/SentenceCollection';
+import {SentenceCollection, RenameFailure} from '../src/sentence-model/SentenceCollection';
 import {TextDocumentItem} from '../src/document'
 
 interface SentenceCollection_PRIVATE {
@@ -174,4 +174,206 @@ describe("SentenceCollection", function() {
       assert.deepStrictEqual(sc.getSentences().map(s => s.getText()), ["pose True.", "\nGoal True."]);
     })
   })
-});
\ No newline at end of file
+
+  describe('lookupDefinition', function() {
+    let sc : SentenceCollection;
+    beforeEach(function() {
+      sc = new SentenceCollection(newDoc([
+        "Definition foo := 0.",
+        "Section A.",
+        "Variable x : nat.",
+        "Definition bar := x.",
+        "End A.",
+        "Module M.",
+        "Definition foo := 1.",
+        "End M.",
+        "Check (foo, M.foo, bar, x).",
+      ]));
+    })
+
+    function lookup(line: number, character: number) {
+      return sc.lookupDefinition(vscode.Position.create(line,character)).map(s => ({id: s.id, start: s.symbol.range.start}));
+    }
+
+    it('unqualified', function() {
+      assert.deepStrictEqual(lookup(8,8), [{id: ['foo'], start: vscode.Position.create(0,11)}]);
+      assert.deepStrictEqual(lookup(8,20), [{id: ['bar'], start: vscode.Position.create(3,11)}]);
+    })
+
+    it('qualified by module', function() {
+      assert.deepStrictEqual(lookup(8,14), [{id: ['M','foo'], start: vscode.Position.create(6,11)}]);
+    })
+
+    it('section variables are not visible after the section', function() {
+      assert.deepStrictEqual(lookup(8,25), []);
+      assert.deepStrictEqual(lookup(3,18), [{id: ['x'], start: vscode.Position.create(2,9)}]);
+    })
+
+    it('innermost first', function() {
+      assert.deepStrictEqual(lookup(6,12), [{id: ['M','foo'], start: vscode.Position.create(6,11)}, {id: ['foo'], start: vscode.Position.create(0,11)}]);
+    })
+  })
+
+  describe('getDocumentSymbols', function() {
+    function outline(symbols: vscode.DocumentSymbol[]) : any[] {
+      return symbols.map(s => s.children.length > 0 ? {name: s.name, range: s.range, children: outline(s.children)} : {name: s.name, range: s.range});
+    }
+
+    it('nests sections, modules, and constructors', function() {
+      const sc = new SentenceCollection(newDoc([
+        "Section A.",
+        "Definition foo := 0.",
+        "End A.",
+        "Module M.",
+        "Inductive t := a | b.",
+        "End M.",
+        "Ltac bar := idtac.",
+      ]));
+      assert.deepStrictEqual(outline(sc.getDocumentSymbols()), [
+        {name: 'A', range: vscode.Range.create(0,0,2,6), children: [
+          {name: 'foo', range: vscode.Range.create(1,0,1,20)}]},
+        {name: 'M', range: vscode.Range.create(3,0,5,6), children: [
+          {name: 't', range: vscode.Range.create(4,0,4,21), children: [
+            {name: 'a', range: vscode.Range.create(4,15,4,16)},
+            {name: 'b', range: vscode.Range.create(4,19,4,20)}]}]},
+        {name: 'bar', range: vscode.Range.create(6,0,6,18)},
+      ]);
+    })
+
+    it('unterminated scopes extend to the end', function() {
+      const sc = new SentenceCollection(newDoc(["Module M.", "Definition foo := 0."]));
+      assert.deepStrictEqual(outline(sc.getDocumentSymbols()), [
+        {name: 'M', range: vscode.Range.create(0,0,1,20), children: [
+          {name: 'foo', range: vscode.Range.create(1,0,1,20)}]},
+      ]);
+    })
+
+    it('symbols start after leading comments', function() {
+      const sc = new SentenceCollection(newDoc(["Definition a := 0.", "(* doc *) Definition foo := 0."]));
+      assert.deepStrictEqual(outline(sc.getDocumentSymbols()), [
+        {name: 'a', range: vscode.Range.create(0,0,0,18)},
+        {name: 'foo', range: vscode.Range.create(1,10,1,30)},
+      ]);
+    })
+  })
+
+  it('getIdentifierPrefixAt', function() {
+    const sc = new SentenceCollection(newDoc(["Check (Nat.ad", "foo. bar'"]));
+    assert.equal(sc.getIdentifierPrefixAt(vscode.Position.create(0,13)), "Nat.ad");
+    assert.equal(sc.getIdentifierPrefixAt(vscode.Position.create(0,11)), "Nat.");
+    assert.equal(sc.getIdentifierPrefixAt(vscode.Position.create(0,7)), "");
+    assert.equal(sc.getIdentifierPrefixAt(vscode.Position.create(1,9)), "bar'");
+  })
+
+  it('getFoldingRanges', function() {
+    const sc = new SentenceCollection(newDoc([
+      "Section A.",              // 0
+      "(* a (* nested *)",       // 1
+      "   comment *)",           // 2
+      "Lemma foo : True /\\ True.",  // 3
+      "Proof.",                  // 4
+      "  split.",                // 5
+      "  - exact I.",            // 6
+      "  - { idtac.",            // 7
+      "      exact I. }",        // 8
+      "Qed.",                    // 9
+      "End A.",                  // 10
+    ]));
+    assert.deepStrictEqual(sc.getFoldingRanges().map(r => [r.startLine, r.endLine, r.kind]), [
+      [0, 10, undefined],
+      [1, 2, 'comment'],
+      [3, 9, undefined],
+      [7, 8, undefined],
+    ]);
+  })
+
+  it('getSelectionRanges', function() {
+    const sc = new SentenceCollection(newDoc([
+      "Module M.",                    // 0
+      "Lemma foo : True /\\ True.",   // 1
+      "Proof.",                       // 2
+      "  split.",                     // 3
+      "  - exact (id I).",            // 4
+      "  - exact I.",                 // 5
+      "Qed.",                         // 6
+      "End M.",                       // 7
+    ]));
+    assert.deepStrictEqual(sc.getSelectionRanges(vscode.Position.create(4,13)), [
+      vscode.Range.create(4,11,4,13),
+      vscode.Range.create(4,10,4,16),
+      vscode.Range.create(4,4,4,17),
+      vscode.Range.create(4,2,4,17),
+      vscode.Range.create(1,0,6,4),
+      vscode.Range.create(0,0,7,6),
+    ]);
+  })
+
+  it('getSelectionRanges - in the leading comment of a sentence', function() {
+    const sc = new SentenceCollection(newDoc([
+      "Goal True.",         // 0
+      "  (* by (id I) *)",  // 1
+      "  exact I.",         // 2
+    ]));
+    assert.deepStrictEqual(sc.getSelectionRanges(vscode.Position.create(1,12)), [
+      vscode.Range.create(0,10,2,10),
+      vscode.Range.create(0,0,2,10),
+    ]);
+    assert.deepStrictEqual(sc.getSelectionRanges(vscode.Position.create(2,8)), [
+      vscode.Range.create(2,8,2,9),
+      vscode.Range.create(2,2,2,10),
+      vscode.Range.create(0,0,2,10),
+    ]);
+  })
+
+  it('getRequiredModules', function() {
+    const sc = new SentenceCollection(newDoc(["From Coq Require Import Lists.List", "  Arith.", "Require Nat."]));
+    const modules = sc.getSentences().map(s => s.getRequiredModules());
+    assert.deepStrictEqual(modules, [
+      [{module: 'Lists.List', dirPath: 'Coq', range: vscode.Range.create(0,24,0,34)},
+       {module: 'Arith', dirPath: 'Coq', range: vscode.Range.create(1,2,1,7)}],
+      [{module: 'Nat', dirPath: null, range: vscode.Range.create(2,8,2,11)}],
+    ]);
+  })
+
+  it('getRequiredModules - skips comments', function() {
+    const sc = new SentenceCollection(newDoc(["(* Require *) Require (* Arith *) Arith."]));
+    assert.deepStrictEqual(sc.getSentences()[0].getRequiredModules(), [
+      {module: 'Arith', dirPath: null, range: vscode.Range.create(0,34,0,39)},
+    ]);
+  })
+
+  describe('rename', function() {
+    let sc : SentenceCollection;
+    beforeEach(function() {
+      sc = new SentenceCollection(newDoc([
+        "Definition foo := 0.",
+        "Module M.",
+        "Definition foo := 1.",
+        "Definition bar := foo + M.foo. (* foo *)",
+        "End M.",
+        "Check (foo, M.foo, \"M.foo\").",
+      ]));
+    })
+
+    function edits(line: number, character: number, newName: string) {
+      return sc.rename(vscode.Position.create(line,character), newName).map(e => [e.range.start.line, e.range.start.character, e.range.end.character, e.newText]);
+    }
+
+    it('prepareRename', function() {
+      assert.deepStrictEqual(sc.prepareRename(vscode.Position.create(5,14)), vscode.Range.create(5,14,5,17));
+      assert.equal(sc.prepareRename(vscode.Position.create(5,1)), null);
+      assert.equal(sc.prepareRename(vscode.Position.create(5,12)), null);
+    })
+
+    it('renames the declaration and qualified uses', function() {
+      assert.deepStrictEqual(edits(2,12,'baz'), [[2,11,14,'baz'], [3,18,21,'baz'], [3,26,29,'baz'], [5,14,17,'baz']]);
+      assert.deepStrictEqual(edits(5,8,'baz'), [[0,11,14,'baz'], [5,7,10,'baz']]);
+    })
+
+    it('refuses clashes', function() {
+      assert.throws(() => sc.rename(vscode.Position.create(2,12), 'bar'), RenameFailure);
+      assert.throws(() => sc.rename(vscode.Position.create(2,12), 'not valid'), RenameFailure);
+      assert.doesNotThrow(() => sc.rename(vscode.Position.create(0,12), 'bar'));
+    })
+  })
+});
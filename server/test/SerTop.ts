@@ -0,0 +1,180 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+import * as events from 'events';
+import * as stream from 'stream';
+import * as vscode from 'vscode-languageserver';
+
+import * as coqProto from '../src/coqtop/coq-proto';
+import {CallFailure, Interrupted} from '../src/coqtop/CoqTop';
+import {SerTop, SerTopProcess} from '../src/coqtop/SerTop';
+import {CoqTopSettings} from '../src/protocol';
+import {dummyConsole} from './dummies';
+
+/** A call that sertop is expected to receive and the answers it sent back, as recorded from sertop 8.12 */
+interface Exchange {
+  call: string;
+  answers: string[];
+}
+
+/** Plays the part of the sertop process: answers each expected call with its recorded answers */
+class FakeSerTopProcess extends events.EventEmitter implements SerTopProcess {
+  public stdin = new stream.PassThrough();
+  public stdout = new stream.PassThrough();
+  public stderr = new stream.PassThrough();
+  public calls : string[] = [];
+  public signals : string[] = [];
+
+  constructor(private exchanges: Exchange[]) {
+    super();
+    this.stdin.setEncoding('utf8');
+    this.stdin.on('data', (data: string) => data.split('\n').filter(line => line !== "").forEach(line => this.onCall(line)));
+  }
+
+  private onCall(line: string) {
+    this.calls.push(line);
+    if(this.exchanges.length > 0 && this.exchanges[0].call === line)
+      this.answer(...this.exchanges.shift().answers);
+  }
+
+  public answer(...answers: string[]) {
+    answers.forEach(answer => this.stdout.write(answer + '\n'));
+  }
+
+  public kill(signal?: NodeJS.Signals) {
+    this.signals.push(signal || "SIGTERM");
+  }
+}
+
+class TestSerTop extends SerTop {
+  public fake : FakeSerTopProcess;
+  public args : string[];
+
+  constructor(settings: CoqTopSettings, console: vscode.RemoteConsole, private exchanges: Exchange[]) {
+    super(settings, "test.v", ".", console);
+  }
+
+  protected async detectVersion() {
+    return "8.12.0";
+  }
+
+  protected spawnSerTop(args: string[]) : SerTopProcess {
+    this.args = args;
+    this.fake = new FakeSerTopProcess(this.exchanges);
+    return this.fake;
+  }
+}
+
+describe("SerTop", function() {
+  const settings : CoqTopSettings = {
+    binPath: "",
+    coqtopExe: "coqtop",
+    coqidetopExe: "coqidetop",
+    args: ["-R", "src", "Lib"],
+    startOn: "open-script",
+  };
+  const loc = '((fname ToplevelInput) (line_nb 1) (bol_pos 0) (line_nb_last 1) (bol_pos_last 0) (bp 0) (ep 10))';
+
+  /** The recorded exchanges of adding `command` (as printed in the call) on top of `stateId` as `newStateId` and executing it */
+  function addAndExec(tag: number, command: string, stateId: number, newStateId: number) : Exchange[] {
+    return [{
+      call: `(vscoq${tag} (Add ((ontop ${stateId}) (lim 1)) ${command}))`,
+      answers: [`(Answer vscoq${tag} Ack)`, `(Answer vscoq${tag} (Added ${newStateId} ${loc} NewTip))`, `(Answer vscoq${tag} Completed)`],
+    }, {
+      call: `(vscoq${tag+1} (Exec ${newStateId}))`,
+      answers: [
+        `(Answer vscoq${tag+1} Ack)`,
+        `(Feedback ((doc_id 0) (span_id ${newStateId}) (route 0) (contents Processed)))`,
+        `(Answer vscoq${tag+1} Completed)`,
+      ],
+    }];
+  }
+
+  let coq : TestSerTop;
+  afterEach(function() {
+    coq.dispose();
+  })
+
+  it("adds a command and then executes it", async function() {
+    coq = new TestSerTop(settings, dummyConsole, addAndExec(0, '"Goal True."', 1, 2));
+    const feedback : coqProto.StateFeedback[] = [];
+    coq.onFeedback(x => feedback.push(x));
+    assert.deepStrictEqual(await coq.startCoq(), {stateId: 1});
+    assert.deepStrictEqual(coq.args, ["-R", "src,Lib", "--topfile=test.v"]);
+    assert.deepStrictEqual(await coq.coqAddCommand("Goal True.", 0, 1, true), {stateId: 2, message: "", unfocusedStateId: undefined});
+    assert.deepStrictEqual(coq.fake.calls, ['(vscoq0 (Add ((ontop 1) (lim 1)) "Goal True."))', '(vscoq1 (Exec 2))']);
+    assert.deepStrictEqual(feedback.map(f => f.objectId), [{objectKind: "stateid", stateId: 2}]);
+  })
+
+  it("reports an error raised while executing an added command", async function() {
+    coq = new TestSerTop(settings, dummyConsole, [addAndExec(0, 'fail.', 1, 2)[0], {
+      call: '(vscoq1 (Exec 2))',
+      answers: [
+        '(Answer vscoq1 Ack)',
+        '(Answer vscoq1 (CoqExn ((loc ()) (stm_ids ((2 2))) (backtrace (Backtrace ())) (exn (CErrors.UserError "")) (pp (Pp_string Oops)) (str "Oops"))))',
+        '(Answer vscoq1 Completed)',
+      ],
+    }]);
+    await coq.startCoq();
+    await assert.rejects(coq.coqAddCommand("fail.", 0, 1, true), (err) => err instanceof CallFailure && err.message === "Oops" && err.stateId === 1);
+  })
+
+  it("cancels the states after the one it edits at", async function() {
+    coq = new TestSerTop(settings, dummyConsole, [
+      ...addAndExec(0, '"Goal True."', 1, 2),
+      ...addAndExec(2, 'idtac.', 2, 3),
+      ...addAndExec(4, 'idtac.', 3, 4),
+      {call: '(vscoq6 (Cancel (3 4)))', answers: ['(Answer vscoq6 Ack)', '(Answer vscoq6 (Canceled (3 4)))', '(Answer vscoq6 Completed)']},
+      {call: '(vscoq7 (Query ((sid 2)) Goals))', answers: ['(Answer vscoq7 Ack)', '(Answer vscoq7 (ObjList ()))', '(Answer vscoq7 Completed)']},
+      ...addAndExec(8, 'idtac.', 2, 5),
+      {call: '(vscoq10 (Cancel (2 5)))', answers: ['(Answer vscoq10 Ack)', '(Answer vscoq10 (Canceled (2 5)))', '(Answer vscoq10 Completed)']},
+      {call: '(vscoq11 (Query ((sid 1)) Goals))', answers: ['(Answer vscoq11 Ack)', '(Answer vscoq11 (ObjList ()))', '(Answer vscoq11 Completed)']},
+    ]);
+    await coq.startCoq();
+    await coq.coqAddCommand("Goal True.", 0, 1);
+    await coq.coqAddCommand("idtac.", 0, 2);
+    await coq.coqAddCommand("idtac.", 0, 3);
+    await coq.coqEditAt(2);
+    assert.deepStrictEqual(await coq.coqGoal(), {mode: 'no-proof'});
+    // The cancelled states are forgotten: only 2 and 5 are left to cancel from the root
+    await assert.rejects(coq.coqEditAt(3), (err) => err instanceof CallFailure);
+    assert.equal((await coq.coqAddCommand("idtac.", 0, 2)).stateId, 5);
+    await coq.coqEditAt(1);
+    assert.deepStrictEqual(await coq.coqGoal(), {mode: 'no-proof'});
+    assert.deepStrictEqual(coq.fake.calls.slice(6), [
+      '(vscoq6 (Cancel (3 4)))',
+      '(vscoq7 (Query ((sid 2)) Goals))',
+      '(vscoq8 (Add ((ontop 2) (lim 1)) idtac.))',
+      '(vscoq9 (Exec 5))',
+      '(vscoq10 (Cancel (2 5)))',
+      '(vscoq11 (Query ((sid 1)) Goals))',
+    ]);
+  })
+
+  it("fails the pending calls when sertop exits", async function() {
+    coq = new TestSerTop(settings, dummyConsole, []);
+    const closed : boolean[] = [];
+    coq.onClosed(isError => closed.push(isError));
+    await coq.startCoq();
+    const added = coq.coqAddCommand("Goal True.", 0, 1);
+    coq.fake.emit('exit', 1);
+    await assert.rejects(added, (err) => err instanceof CallFailure && err.message === "sertop closed with code: 1");
+    assert.deepStrictEqual(closed, [false]);
+    assert.ok(!coq.isRunning());
+    await assert.rejects(coq.coqGoal());
+  })
+
+  it("interrupts sertop with SIGINT", async function() {
+    coq = new TestSerTop(settings, dummyConsole, []);
+    await coq.startCoq();
+    const added = coq.coqAddCommand("Goal True.", 0, 1);
+    assert.equal(await coq.coqInterrupt(), true);
+    assert.deepStrictEqual(coq.fake.signals, ["SIGINT"]);
+    coq.fake.answer(
+      '(Answer vscoq0 Ack)',
+      '(Answer vscoq0 (CoqExn ((loc ()) (stm_ids ()) (backtrace (Backtrace ())) (exn Sys.Break) (pp (Pp_string "")) (str "User interrupt."))))',
+      '(Answer vscoq0 Completed)');
+    await assert.rejects(added, (err) => err instanceof Interrupted);
+    coq.dispose();
+    assert.equal(await coq.coqInterrupt(), false);
+  })
+});
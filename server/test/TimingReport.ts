@@ -0,0 +1,42 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+import {Range} from 'vscode-languageserver';
+
+import {createTimingReport} from '../src/stm/TimingReport';
+
+/** One sentence per line */
+function sentences(...timed: [string, number|null][]) {
+  return timed.map(([text, time], line) => ({text: text, range: Range.create(line, 0, line, text.length), time: time}));
+}
+
+describe("TimingReport", function() {
+  it("sorts sentences by cost", function() {
+    const report = createTimingReport(sentences(["Require Import  Arith.", 30], ["Definition x := 1.", 2], ["Check (* x *) x.", 5]));
+    assert.deepStrictEqual(report.sentences.map(s => [s.command, s.time]),
+      [["Require Import Arith.", 30], ["Check x.", 5], ["Definition x := 1.", 2]]);
+    assert.deepStrictEqual(report.proofs, []);
+  })
+
+  it("sums each proof from its statement through Qed", function() {
+    const report = createTimingReport(sentences(
+      ["Lemma fast : True.", 1], ["Proof.", 1], ["trivial.", 2], ["Qed.", 3],
+      ["Definition x := 1.", 100],
+      ["Local Theorem slow : 1 = 1.", 1], ["reflexivity.", 50], ["Defined.", 10],
+      ["Goal True.", 1], ["auto.", 1], ["Admitted.", 1]));
+    assert.deepStrictEqual(report.proofs.map(p => [p.name, p.time, p.sentences, p.range.start.line, p.range.end.line]),
+      [["slow", 61, 3, 5, 7], ["fast", 7, 4, 0, 3], ["Goal", 3, 3, 8, 10]]);
+    assert.equal(report.sentences[0].command, "Definition x := 1.");
+  })
+
+  it("leaves out the sentences checked by a worker and marks their proof", function() {
+    const report = createTimingReport(sentences(["Lemma l : True.", 1], ["trivial.", null], ["Qed.", 3], ["Check l.", 2]));
+    assert.deepStrictEqual(report.proofs.map(p => [p.name, p.time, p.sentences, p.delegated]), [["l", 4, 3, true]]);
+    assert.deepStrictEqual(report.sentences.map(s => s.command), ["Qed.", "Check l.", "Lemma l : True."]);
+  })
+
+  it("ignores a proof that is not finished", function() {
+    const report = createTimingReport(sentences(["Lemma l : True.", 1], ["trivial.", 2]));
+    assert.deepStrictEqual(report.proofs, []);
+    assert.equal(report.sentences.length, 2);
+  })
+});
@@ -0,0 +1,64 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import {findAssumptionSentences} from '../src/parsing/assumptions-parsing';
+
+describe("assumptions-parsing", function() {
+  it("findAssumptionSentences", function() {
+    const text = [
+      "Axiom excluded_middle : forall P, P \\/ ~ P.",
+      "Parameters (A B : Type) (f : A -> B).",
+      "Lemma l : True.",
+      "Proof.",
+      "  - admit.",
+      "Admitted.",
+      "(* Axiom commented : False. *)",
+      "Theorem t : True.",
+      "Proof. trivial. Qed.",
+      "Goal False. give_up. Abort.",
+      "Definition admit_free := 1.",
+    ].join('\n');
+    const found = findAssumptionSentences(text);
+    assert.deepStrictEqual(found.map(a => [a.kind, a.name]), [
+      ["axiom", "excluded_middle"],
+      ["axiom", "A B f"],
+      ["admit", "l"],
+      ["admitted", "l"],
+      ["admit", "Goal"],
+    ]);
+    assert.equal(text.substring(found[3].start, found[3].end), "Admitted.");
+    assert.equal(text.substring(found[2].start, found[2].end), "admit.");
+  })
+
+  it("ignores the parameters of module types", function() {
+    const text = [
+      "Module Type ORDER.",
+      "  Parameter t : Type.",
+      "  Section S. Axiom in_section : t. End S.",
+      "  Axiom le_refl : forall x : t, x = x.",
+      "End ORDER.",
+      "Module Type ORDER' := ORDER.",
+      "Module Nat_order <: ORDER.",
+      "  Definition t := nat.",
+      "  Axiom le_refl : forall x : t, x = x.",
+      "End Nat_order.",
+      "Parameter after : nat.",
+    ].join('\n');
+    assert.deepStrictEqual(findAssumptionSentences(text).map(a => [a.kind, a.name]), [
+      ["axiom", "le_refl"],
+      ["axiom", "after"],
+    ]);
+  })
+
+  it("finds admitted obligations", function() {
+    const text = "Program Definition p : {n | n > 0} := 1.\nAdmit Obligations.\nAdmit Obligations of p.";
+    const found = findAssumptionSentences(text);
+    assert.deepStrictEqual(found.map(a => [a.kind, a.name]), [["admitted", ""], ["admitted", "p"]]);
+    assert.equal(text.substring(found[0].start, found[0].end), "Admit Obligations.");
+  })
+
+  it("ignores an unterminated sentence", function() {
+    assert.deepStrictEqual(findAssumptionSentences("Axiom a : True. Axiom b : True").map(a => a.name), ["a"]);
+    assert.deepStrictEqual(findAssumptionSentences("Axiom a : True. (* Axiom b : True.").map(a => a.name), ["a"]);
+  })
+});
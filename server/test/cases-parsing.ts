@@ -0,0 +1,59 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as cases from '../src/parsing/cases-parsing';
+
+describe("cases-parsing", function() {
+  it("findMatch", function() {
+    const text = "Definition f (n : nat) := match n with end.";
+    assert.deepStrictEqual(cases.findMatch(text, 28), {kind: "match", term: "n", start: 26, end: 42});
+    assert.deepStrictEqual(cases.findMatch("Definition f n := match n with.", 20), {kind: "match", term: "n", start: 18, end: 30});
+    assert.equal(cases.findMatch("Definition f n := match n with O => 0 | S _ => 1 end.", 20), null);
+    assert.equal(cases.findMatch(text, 5), null);
+    assert.equal(cases.findMatch("Definition f n := match n, n with end.", 20), null);
+  })
+
+  it("parseCaseTactic", function() {
+    assert.deepStrictEqual(cases.parseCaseTactic("destruct (f x)."), {kind: "destruct", term: "(f x)", start: 0, end: 15});
+    assert.deepStrictEqual(cases.parseCaseTactic("induction n."), {kind: "induction", term: "n", start: 0, end: 12});
+    assert.equal(cases.parseCaseTactic("destruct n as [|n]."), null);
+    assert.equal(cases.parseCaseTactic("intros n."), null);
+  })
+
+  it("parseCheckedType", function() {
+    assert.equal(cases.parseCheckedType("f x\n     : list\n         nat"), "list nat");
+    assert.equal(cases.parseCheckedType("The reference x was not found"), null);
+  })
+
+  it("findBinderType", function() {
+    assert.equal(cases.findBinderType("Fixpoint f (b : bool) (m n : list (option nat)) := match n with", "n"), "list (option nat)");
+    assert.equal(cases.findBinderType("Definition f (b : bool) := match n with", "n"), null);
+  })
+
+  it("inductiveOfType", function() {
+    assert.equal(cases.inductiveOfType("list (option nat)"), "list");
+    assert.equal(cases.inductiveOfType("(Coq.Init.Datatypes.nat)"), "Coq.Init.Datatypes.nat");
+    assert.equal(cases.inductiveOfType("forall x, x"), null);
+    assert.equal(cases.inductiveOfType("?T"), null);
+  })
+
+  it("matchSkeleton", function() {
+    assert.equal(cases.matchSkeleton("n", [["O"],["S","n0"]], "  "),
+      "match n with\n  | O => _\n  | S n0 => _\n  end");
+  })
+
+  it("tacticSkeleton", function() {
+    const analysis : cases.CaseAnalysis = {kind: "destruct", term: "n", start: 0, end: 11};
+    assert.equal(cases.tacticSkeleton(analysis, [["O"],["S","n0"]], "-", "  "),
+      "destruct n as [ | n0].\n  - (* O *)\n  - (* S n0 *)");
+    assert.equal(cases.tacticSkeleton({kind: "induction", term: "b", start: 0, end: 12}, [["true"],["false"]], "+", ""),
+      "induction b.\n+ (* true *)\n+ (* false *)");
+  })
+
+  it("nextBullet", function() {
+    assert.equal(cases.nextBullet(null), "-");
+    assert.equal(cases.nextBullet("-"), "+");
+    assert.equal(cases.nextBullet("+"), "*");
+    assert.equal(cases.nextBullet("*"), "--");
+  })
+});
@@ -48,6 +48,59 @@ describe("coq-parser", function() {
       inductive([indBody("w",10, [], [{ident: ident("a", 15), binders: [], term: null}])], 'Inductive w := a.', ' ('));
     assert.deepStrictEqual(parser.parseSentence('Inductive w : Prop := a. ('),
       inductive([indBody("w", 10, [], [{ident: ident("a", 22), binders: [], term: null}], "Prop")], 'Inductive w : Prop := a.', ' ('));
+    assert.deepStrictEqual(parser.parseSentence('Inductive w (A:Type) := a | b : A -> w A. ('),
+      inductive([indBody("w", 10, [{binderType: "name-list", names: ["A"], type: "Type"} as ast.NameList as any], [
+        {ident: ident("a", 24), binders: [], term: null},
+        {ident: ident("b", 28), binders: [], term: "A -> w A"}])], 'Inductive w (A:Type) := a | b : A -> w A.', ' ('));
+  })
+
+  it('parseSentence - SDefinition', function() {
+    assert.deepStrictEqual(parser.parseSentence('Definition foo : nat := 0. ('),
+      {type: 'definition', kind: 'Definition', ident: ident("foo", 11), stmt: ': nat := 0', text: 'Definition foo : nat := 0.', rest: ' ('});
+    assert.deepStrictEqual(parser.parseSentence('Program Lemma foo: True. ('),
+      {type: 'definition', kind: 'Lemma', ident: ident("foo", 14), stmt: ': True', text: 'Program Lemma foo: True.', rest: ' ('});
+    assert.equal(parser.parseSentence('Instance : Foo. (').type, 'any');
+  })
+
+  it('parseSentence - scopes', function() {
+    assert.deepStrictEqual(parser.parseSentence('Section A. ('), {type: 'section', ident: ident("A", 8), text: 'Section A.', rest: ' ('});
+    assert.deepStrictEqual(parser.parseSentence('End A. ('), {type: 'end', ident: ident("A", 4), text: 'End A.', rest: ' ('});
+    assert.deepStrictEqual(parser.parseSentence('Module Export M. ('),
+      {type: 'module', intro: 'Export', ident: ident("M", 14), bindings: [], moduleTypes: [], text: 'Module Export M.', rest: ' ('});
+    assert.equal(parser.parseSentence('Module M := N. (').type, 'module-bind');
+    assert.equal(parser.parseSentence('Module Type T. (').type, 'module-type');
+  })
+
+  it('parseSentence - SAssumptions', function() {
+    assert.deepStrictEqual(parser.parseSentence('Variables (a b : nat) (c : bool). ('),
+      {type: 'assumptions', kind: 'Variables', idents: [ident("a", 11), ident("b", 13), ident("c", 23)], text: 'Variables (a b : nat) (c : bool).', rest: ' ('});
+    assert.deepStrictEqual(parser.parseSentence('Axiom x : False. ('),
+      {type: 'assumptions', kind: 'Axiom', idents: [ident("x", 6)], text: 'Axiom x : False.', rest: ' ('});
+  })
+
+  it('parseSentence - SRequire', function() {
+    assert.deepStrictEqual(parser.parseSentence('From Coq Require Import List Arith.PeanoNat. ('),
+      {type: 'require', intro: 'Import', modules: ['List', 'Arith.PeanoNat'], dirPath: 'Coq', text: 'From Coq Require Import List Arith.PeanoNat.', rest: ' ('});
+  })
+
+  it('parseSentence - SLtacDef', function() {
+    assert.deepStrictEqual(parser.parseSentence('Ltac foo x := idtac x. ('),
+      {type: 'ltacdef', ident: ident("foo", 5), ltac: 'x := idtac x', text: 'Ltac foo x := idtac x.', rest: ' ('});
+  })
+
+  it('parseSentenceLength - declarations end where SAny ends', function() {
+    assert.equal(parser.parseSentenceLength('Definition x := lp:{{ a. }}. b.'), 28);
+    assert.equal(parser.parseSentenceLength('Definition x (* a. b *) := 1. c.'), 29);
+    assert.equal(parser.parseSentenceLength('Inductive w := a | b (* c. *). d.'), 30);
+  })
+
+  it('findCommentsAndStrings', function() {
+    assert.deepStrictEqual(parser.findCommentsAndStrings('a (* b (* "*)" *) *) "c (*" (* d'), [
+      {kind: "comment", start: 2, end: 20},
+      {kind: "string", start: 21, end: 27},
+      {kind: "comment", start: 28, end: 32, unterminated: true},
+    ]);
+    assert.deepStrictEqual(parser.findCode('a (* b *) "c" d'), [{start: 0, end: 2}, {start: 9, end: 10}, {start: 13, end: 15}]);
   })
 
 });
\ No newline at end of file
@@ -0,0 +1,53 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as proto from '../src/coqtop/coq-proto';
+import * as db from '../src/coqtop/xml-protocol/deserialize.base';
+import {createDeserializer} from '../src/coqtop/xml-protocol/deserialize';
+import {Deserialize_8_7} from '../src/coqtop/xml-protocol/deserialize.8.7';
+import {Deserialize_8_14} from '../src/coqtop/xml-protocol/deserialize.8.14';
+import {Deserialize_8_15} from '../src/coqtop/xml-protocol/deserialize.8.15';
+import * as p from '../src/coqtop/xml-protocol/coq-xml';
+import * as stream from 'stream';
+
+describe("Deserialize 8.14 and 8.15", () => {
+  function parse(deserializer: db.Deserialize, xml: string) : Promise<proto.ReturnValue[]> {
+    const data = new stream.PassThrough();
+    const parser = new p.XmlStream(data, deserializer);
+    return new Promise<proto.ReturnValue[]>((resolve, reject) => {
+      const results : proto.ReturnValue[] = [];
+      parser.on('response', (tag, v) => results.push(v));
+      parser.on('error', reject);
+      parser.on('end', () => resolve(results));
+      data.emit('data', xml);
+      data.emit('end', '')
+    })
+  }
+
+  it("createDeserializer", function() {
+    assert.ok(createDeserializer("8.8.2") instanceof Deserialize_8_7);
+    assert.ok(!(createDeserializer("8.13.2") instanceof Deserialize_8_14));
+    assert.ok(createDeserializer("8.14.1") instanceof Deserialize_8_14);
+    assert.ok(!(createDeserializer("8.14.1") instanceof Deserialize_8_15));
+    assert.ok(createDeserializer("8.15.0") instanceof Deserialize_8_15);
+    assert.ok(createDeserializer("unknown") instanceof Deserialize_8_7);
+  });
+
+  it("goal without name", async function () {
+    const results = await parse(new Deserialize_8_14(),
+      '<goal><string>3</string><list><string>x : nat</string></list><string>x = x</string><option val="none"/></goal>');
+    assert.deepStrictEqual(results, [{id: 3, hypotheses: ["x : nat"], goal: "x = x"}]);
+  });
+
+  it("goal with name", async function () {
+    const results = await parse(new Deserialize_8_14(),
+      '<goal><string>3</string><list/><string>True</string><option val="some"><string>base</string></option></goal>');
+    assert.deepStrictEqual(results, [{id: 3, hypotheses: [], goal: "True", name: "base"}]);
+  });
+
+  it("ltac_debug", async function () {
+    const results = await parse(new Deserialize_8_15(),
+      '<ltac_debug tag="output"><string>Going to execute: idtac</string></ltac_debug>');
+    assert.deepStrictEqual(results, [{level: proto.MessageLevel.Debug, message: "Going to execute: idtac"}]);
+  });
+});
@@ -71,6 +71,32 @@ describe("Deserialize 8.7", () => {
 
 
 
+  it("evars", async function () {
+    const results = await parse('<value val="good"><option val="some"><list><evar><string>?x : [ |- nat]</string></evar></list></option></value>');
+    assert.deepStrictEqual(results, [{status: 'good', result: ["?x : [ |- nat]"]}]);
+  });
+
+  it("hints", async function () {
+    const results = await parse('<value val="good"><option val="some"><pair>'
+      + '<list><list><pair><string>clear H</string><string>clear H.</string></pair></list></list>'
+      + '<list><pair><string>intro</string><string>intro.</string></pair></list>'
+      + '</pair></option></value>');
+    assert.deepStrictEqual(proto.GetValue('Hints', results[0] as proto.ValueReturn),
+      {hintsA: [[["clear H", "clear H."]]], hintB: [["intro", "intro."]]});
+  });
+
+  it("feedback_content - globref", async function () {
+    const results = await parse('<feedback_content val="globref"><loc start="6" stop="9"/><string>Coq.Init.Datatypes</string><string>&lt;&gt;</string><string>nat</string><string>ind</string></feedback_content>');
+    assert.deepStrictEqual(results, [{
+      feedbackKind: 'glob-ref', location: {start: 6, stop: 9}, filePath: "Coq.Init.Datatypes", modulePath: "<>", identity: "nat", type: "ind"}]);
+  });
+
+  it("feedback_content - globdef", async function () {
+    const results = await parse('<feedback_content val="globdef"><loc start="11" stop="14"/><string>foo</string><string>M</string><string>def</string></feedback_content>');
+    assert.deepStrictEqual(results, [{
+      feedbackKind: 'glob-def', location: {start: 11, stop: 14}, identity: "foo", secPath: "M", type: "def"}]);
+  });
+
   describe("LtacProf", () => {
     function ltacprof_tactic(name,total,self,num_calls,max_total,children: string[]) {
       return `<ltacprof_tactic name="${name.toString()}" total="${total.toString()}" local="${self.toString()}" ncalls="${num_calls.toString()}" max_total="${max_total.toString()}">${children.join('')}</ltacprof_tactic>`;
@@ -0,0 +1,198 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+import * as vscode from 'vscode-languageserver';
+import * as vscrpc from 'vscode-jsonrpc';
+
+import {CoqDocument} from '../src/document';
+import {CoqProject} from '../src/CoqProject';
+import {Settings, CoqSettings, CoqTopSettings} from '../src/protocol';
+import * as coqtop from '../src/coqtop/CoqTop';
+import {CoqtopSpawnError} from '../src/coqtop/CoqTop';
+import {FakeCoqTop} from './FakeCoqTop';
+import {dummyConsole, dummyDocumentCallbacks} from './dummies';
+
+class UnstartableCoqTop extends FakeCoqTop {
+  public async startCoq() : Promise<coqtop.InitResult> {
+    throw new CoqtopSpawnError("coqtop", "not found");
+  }
+}
+
+/** A project without a workspace whose coqtops are made by `makeCoqTop` */
+class TestProject extends CoqProject {
+  public readonly coqtops : FakeCoqTop[] = [];
+
+  constructor(console: vscode.RemoteConsole, private makeCoqTop: () => FakeCoqTop) {
+    super("", {console: console});
+  }
+
+  public createCoqTopInstance(scriptFile: string) : FakeCoqTop {
+    const fake = this.makeCoqTop();
+    this.coqtops.push(fake);
+    return fake;
+  }
+}
+
+describe("CoqDocument", function() {
+  this.timeout(5000);
+
+  const settings : Settings = {
+    coq: {
+      loadCoqProject: false,
+      interpretToEndOfSentence: false,
+      checkMode: "continuous",
+      format: {enable: false},
+    } as CoqSettings,
+    coqtop: {
+      args: [],
+      binPath: "",
+      startOn: "interaction",
+    } as CoqTopSettings,
+  };
+
+  let coqtops : FakeCoqTop[];
+  let warnings : string[];
+  let doc : CoqDocument;
+
+  /** Opens `text` in a document whose coqtops are made by `makeCoqTop` */
+  async function open(text: string, makeCoqTop: () => FakeCoqTop = () => new FakeCoqTop(), checkMode: CoqSettings["checkMode"] = "continuous") {
+    const project = new TestProject({...dummyConsole, warn: (msg: string) => { warnings.push(msg) }}, makeCoqTop);
+    await project.updateSettings({...settings, coq: {...settings.coq, checkMode: checkMode}});
+    coqtops = project.coqtops;
+    doc = await project.open({uri: "file:///test.v", languageId: "coq", version: 1, text: text}, dummyDocumentCallbacks);
+  }
+
+  /** Appends `text` to the single line of the document */
+  function append(text: string, version: number) {
+    const end = doc.positionAt(doc.getText().length);
+    doc.applyTextEdits([{range: vscode.Range.create(end, end), rangeLength: 0, text: text}], version);
+  }
+
+  async function waitFor(condition: () => boolean) {
+    while(!condition())
+      await new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  /** Long enough for any scheduled check to have run */
+  function settle() {
+    return new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  beforeEach(function() {
+    warnings = [];
+  })
+
+  afterEach(async function() {
+    await doc.dispose();
+  })
+
+  describe('continuous checking', function() {
+    it('checks the document once its edits settle', async function() {
+      await open("Goal True.");
+      append(" idtac.", 2);
+      await waitFor(() => coqtops.some(c => c.calls.includes("Goal")));
+      await settle();
+      // The check scheduled when the document was opened was cancelled by the edit
+      const calls = [].concat(...coqtops.map(c => c.calls));
+      assert.deepStrictEqual(calls, ["Init", "Add(1, Goal True.)", "Add(2, idtac.)", "Goal"]);
+      assert.deepStrictEqual(warnings, []);
+    })
+
+    it('stops checking after coqtop fails to start until Coq is reset', async function() {
+      await open("Goal True.", () => new UnstartableCoqTop());
+      await waitFor(() => warnings.length > 0);
+      const attempts = coqtops.length;
+      append(" idtac.", 2);
+      await settle();
+      assert.equal(coqtops.length, attempts);
+      assert.deepStrictEqual(warnings, ["Continuous checking stopped: could not start coqtop; reset Coq to check the document again"]);
+
+      await doc.resetCoq();
+      append(" idtac.", 3);
+      await waitFor(() => warnings.length > 1);
+      assert.ok(coqtops.length > attempts);
+    })
+  })
+
+  describe('provideHover', function() {
+    let fake : FakeCoqTop;
+
+    /** Opens `text` and interprets all of it */
+    async function openAndInterpret(text: string) {
+      await open(text, () => fake, "manual");
+      await doc.interpretToEnd(false, new vscrpc.CancellationTokenSource().token);
+    }
+
+    beforeEach(function() {
+      fake = new FakeCoqTop();
+    })
+
+    it('shows a definition of the document that has not been interpreted', async function() {
+      await open("Definition foo := 1.\nCheck foo.", () => fake, "manual");
+      assert.deepStrictEqual(await doc.provideHover(vscode.Position.create(1,7)), {
+        contents: {language: 'coq', value: "Definition foo := 1."},
+        range: vscode.Range.create(1,6,1,9),
+      });
+      assert.deepStrictEqual(fake.calls, []);
+    })
+
+    it('asks coqtop to Check an identifier that is not defined in the document', async function() {
+      fake.query(/^Check I\.$/, {output: ["I\n     : True"]});
+      await openAndInterpret("Goal True.\nexact I.");
+      assert.deepStrictEqual(await doc.provideHover(vscode.Position.create(1,6)), {
+        contents: {language: 'coq', value: "I\n     : True"},
+        range: vscode.Range.create(1,6,1,7),
+      });
+      assert.ok(!fake.calls.some(call => /About/.test(call)));
+    })
+
+    it('asks coqtop About an identifier that cannot be checked', async function() {
+      fake.query(/^Check/, {fail: "The reference auto was not found in the current environment."});
+      fake.query(/^About auto\.$/, {output: ["Ltac Coq.Init.Tauto.auto", "Expands to: Ltac auto"]});
+      await openAndInterpret("Goal True.\nauto.");
+      assert.deepStrictEqual(await doc.provideHover(vscode.Position.create(1,2)), {
+        contents: {language: 'coq', value: "Ltac Coq.Init.Tauto.auto\nExpands to: Ltac auto"},
+        range: vscode.Range.create(1,0,1,4),
+      });
+    })
+
+    it('shows nothing when coqtop prints nothing', async function() {
+      await openAndInterpret("Goal True.\nexact I.");
+      assert.equal(await doc.provideHover(vscode.Position.create(1,6)), null);
+    })
+
+    it('shows nothing off an identifier', async function() {
+      await openAndInterpret("Goal True.\nexact I.");
+      assert.equal(await doc.provideHover(vscode.Position.create(0,10)), null);
+      assert.equal(await doc.provideHover(vscode.Position.create(1,8)), null);
+      assert.ok(!fake.calls.some(call => /Query/.test(call)));
+    })
+  })
+
+  describe('makeCases', function() {
+    let fake : FakeCoqTop;
+    const text = "Goal True.\nloop.\nDefinition f (b : bool) := match b with end.";
+
+    beforeEach(function() {
+      fake = new FakeCoqTop().inductive("bool", [["true"], ["false"]]);
+    })
+
+    it('writes a branch per constructor', async function() {
+      await open(text, () => fake, "manual");
+      await doc.interpretToEnd(false, new vscrpc.CancellationTokenSource().token);
+      const edits = await doc.makeCases(vscode.Position.create(2,28));
+      assert.deepStrictEqual(edits, [vscode.TextEdit.replace(vscode.Range.create(2,27,2,43), "match b with\n| true => _\n| false => _\nend")]);
+    })
+
+    it('leaves the match alone while Coq is busy', async function() {
+      fake.rule(/loop/, {hang: true});
+      await open(text, () => fake, "manual");
+      const interpreting = doc.interpretToEnd(false, new vscrpc.CancellationTokenSource().token);
+      await waitFor(() => fake.isHanging());
+      const edits = await doc.makeCases(vscode.Position.create(2,28));
+      assert.ok(edits instanceof vscode.ResponseError && /busy/.test(edits.message));
+      assert.ok(!fake.calls.some(call => /MkCases/.test(call)));
+      await doc.interrupt();
+      await interpreting.catch(() => {});
+    })
+  })
+});
@@ -0,0 +1,27 @@
+import {RemoteConsole} from 'vscode-languageserver';
+
+import {DocumentCallbacks} from '../src/document';
+
+/** A console that drops everything; spread it to record some of the output, e.g. `{...dummyConsole, warn: ...}` */
+export const dummyConsole : RemoteConsole = {
+  log: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  attach: () => {},
+  initialize: () => {},
+  fillServerCapabilities: () => {},
+  connection: undefined,
+};
+
+export const dummyDocumentCallbacks : DocumentCallbacks = {
+  sendMessage: () => {},
+  sendReset: () => {},
+  sendLtacProfResults: () => {},
+  sendCoqtopStart: () => {},
+  sendCoqtopStop: () => {},
+  sendWorkers: () => {},
+  sendHighlightUpdates: () => {},
+  sendDiagnostics: () => {},
+  sendStmFocus: () => {},
+};
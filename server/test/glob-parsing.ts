@@ -0,0 +1,37 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as glob from '../src/parsing/glob-parsing';
+
+describe("glob-parsing", function() {
+  it("parseGlob", function() {
+    const g = glob.parseGlob([
+      "DIGEST 8f2c43eb16e6c12e6dc8ad9efb31dbc2",
+      "FFoo.Bar",
+      "R15:17 Coq.Init.Datatypes <> nat ind",
+      "def 4:6 <> foo",
+      "binder 30:30 <> x:1",
+      "mod 40:40 <> M",
+      "def 55:57 M foo",
+      "R70:74 Foo.Bar M foo def",
+      "not 80:81 <> ::x_'+'_x",
+    ].join('\n'));
+    assert.equal(g.digest, "8f2c43eb16e6c12e6dc8ad9efb31dbc2");
+    assert.equal(g.library, "Foo.Bar");
+    assert.deepStrictEqual(g.references, [
+      {start: 15, stop: 17, library: "Coq.Init.Datatypes", path: [], name: "nat", kind: "ind"},
+      {start: 70, stop: 74, library: "Foo.Bar", path: ["M"], name: "foo", kind: "def"},
+    ]);
+    assert.deepStrictEqual(g.definitions, [
+      {kind: "def", start: 4, stop: 6, path: [], name: "foo"},
+      {kind: "binder", start: 30, stop: 30, path: [], name: "x:1"},
+      {kind: "mod", start: 40, stop: 40, path: [], name: "M"},
+      {kind: "def", start: 55, stop: 57, path: ["M"], name: "foo"},
+      {kind: "not", start: 80, stop: 81, path: [], name: "::x_'+'_x"},
+    ]);
+  })
+
+  it("parseGlob - empty", function() {
+    assert.deepStrictEqual(glob.parseGlob(""), {digest: null, library: "", definitions: [], references: []});
+  })
+});
@@ -0,0 +1,24 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as locate from '../src/parsing/locate-parsing';
+
+describe("locate-parsing", function() {
+  it("parseLocate", function() {
+    assert.deepStrictEqual(locate.parseLocate("Constant Coq.Init.Nat.add\n  (shorter name to refer to it in current context is Nat.add)"),
+      [{kind: "Constant", qualid: ["Coq","Init","Nat","add"]}]);
+    assert.deepStrictEqual(locate.parseLocate("Inductive Coq.Init.Datatypes.nat\nConstructor Top.M.nat"),
+      [{kind: "Inductive", qualid: ["Coq","Init","Datatypes","nat"]}, {kind: "Constructor", qualid: ["Top","M","nat"]}]);
+    assert.deepStrictEqual(locate.parseLocate("Module Type Coq.Structures.Orders.OrderedType"),
+      [{kind: "Module Type", qualid: ["Coq","Structures","Orders","OrderedType"]}]);
+    assert.deepStrictEqual(locate.parseLocate("No object of basename foo"), []);
+  })
+
+  it("parseLocateLibrary", function() {
+    assert.equal(locate.parseLocateLibrary("Coq.Init.Datatypes has been loaded from file /usr/lib/coq/theories/Init/Datatypes.vo"),
+      "/usr/lib/coq/theories/Init/Datatypes.vo");
+    assert.equal(locate.parseLocateLibrary("Coq.Lists.List is bound to file /usr/lib/coq/theories/Lists/List.vo"),
+      "/usr/lib/coq/theories/Lists/List.vo");
+    assert.equal(locate.parseLocateLibrary("Unable to locate library Foo."), null);
+  })
+});
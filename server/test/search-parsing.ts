@@ -0,0 +1,42 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as search from '../src/parsing/search-parsing';
+
+describe("search-parsing", function() {
+  it("parseSearch - separate messages", function() {
+    assert.deepStrictEqual(search.parseSearch(["Nat.add_comm: forall n m : nat, n + m = m + n", "Nat.add_0_r:\n  forall n : nat,\n  n + 0 = n"]), [
+      {name: "Nat.add_comm", type: "forall n m : nat, n + m = m + n"},
+      {name: "Nat.add_0_r", type: "forall n : nat, n + 0 = n"},
+    ]);
+  })
+
+  it("parseSearch - single message", function() {
+    assert.deepStrictEqual(search.parseSearch(["plus_n_O: forall n : nat, n = n + 0\nplus_O_n:\n  forall n : nat, 0 + n = n"]), [
+      {name: "plus_n_O", type: "forall n : nat, n = n + 0"},
+      {name: "plus_O_n", type: "forall n : nat, 0 + n = n"},
+    ]);
+    assert.deepStrictEqual(search.parseSearch([]), []);
+  })
+
+  it("parseSearchQuery", function() {
+    assert.deepStrictEqual(search.parseSearchQuery('"comm" (_ + _) -Nat.sub inside Arith Init.Nat outside Reals.'), [
+      {kind: "name_pattern", pattern: "comm", positive: true},
+      {kind: "subtype_pattern", pattern: "(_ + _)", positive: true},
+      {kind: "subtype_pattern", pattern: "Nat.sub", positive: false},
+      {kind: "in_module", module: ["Arith"], positive: true},
+      {kind: "in_module", module: ["Init", "Nat"], positive: true},
+      {kind: "in_module", module: ["Reals"], positive: false},
+      {kind: "include_blacklist", positive: true},
+    ]);
+    assert.deepStrictEqual(search.parseSearchQuery('-"_rect"'), [
+      {kind: "name_pattern", pattern: "_rect", positive: false},
+      {kind: "include_blacklist", positive: true},
+    ]);
+  })
+
+  it("parseCheck", function() {
+    assert.equal(search.parseCheck("Nat.add\n     : nat -> nat -> nat"), "nat -> nat -> nat");
+    assert.equal(search.parseCheck("The reference foo was not found in the current environment."), null);
+  })
+});
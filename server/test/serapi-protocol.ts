@@ -0,0 +1,61 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as proto from '../src/coqtop/coq-proto';
+import {parse} from '../src/coqtop/serapi/sexp';
+import * as serapi from '../src/coqtop/serapi/serapi-protocol';
+
+describe("serapi-protocol", function() {
+  const loc = '((fname ToplevelInput) (line_nb 1) (bol_pos 0) (line_nb_last 1) (bol_pos_last 0) (bp 5) (ep 9))';
+
+  it("translateArgs", function() {
+    assert.deepStrictEqual(serapi.translateArgs(["-R", "src", "Lib", "-I", "ml", "-Q", "a", "B"]),
+      ["-R", "src,Lib", "-I", "ml", "-Q", "a,B"]);
+  })
+
+  it("ppToString", function() {
+    const pp = parse('(Pp_glue ((Pp_string a) (Pp_print_break 1 0) (Pp_box (Pp_hovbox 0) (Pp_tag constr.keyword (Pp_string b))) Pp_force_newline))')[0];
+    assert.equal(serapi.ppToString(pp), "a b\n");
+  })
+
+  it("decodeFeedback", function() {
+    assert.deepStrictEqual(serapi.decodeFeedback(parse('(Feedback ((doc_id 0) (span_id 3) (route 0) (contents Processed)))')[0]), {
+      objectId: {objectKind: "stateid", stateId: 3}, route: 0,
+      feedbackKind: "sentence-status", status: proto.SentenceStatus.Processed, worker: "", inProgressDelta: 0});
+    assert.deepStrictEqual(serapi.decodeFeedback(parse(`(Feedback ((doc_id 0) (span_id 4) (route 2) (contents (Message (level Error) (loc (${loc})) (pp (Pp_string oops)) (str "oops!")))))`)[0]), {
+      objectId: {objectKind: "stateid", stateId: 4}, route: 2,
+      feedbackKind: "message", level: proto.MessageLevel.Error, location: {start: 5, stop: 9}, message: "oops!"});
+    assert.deepStrictEqual(serapi.decodeFeedback(parse('(Feedback ((doc_id 0) (span_id 4) (route 0) (contents (Message Notice () (Pp_string hi)))))')[0]), {
+      objectId: {objectKind: "stateid", stateId: 4}, route: 0,
+      feedbackKind: "message", level: proto.MessageLevel.Notice, location: undefined, message: "hi"});
+  })
+
+  it("decodeAdded", function() {
+    assert.deepStrictEqual(serapi.decodeAdded(parse(`(Added 2 ${loc} NewTip)`)[0]), {stateId: 2, location: {start: 5, stop: 9}, unfocusedStateId: undefined});
+    assert.deepStrictEqual(serapi.decodeAdded(parse(`(Added 7 ${loc} (Unfocus 5))`)[0]), {stateId: 7, location: {start: 5, stop: 9}, unfocusedStateId: 5});
+  })
+
+  it("decodeCoqExn", function() {
+    assert.deepStrictEqual(serapi.decodeCoqExn(parse(`(CoqExn ((loc (${loc})) (stm_ids ((2 3))) (backtrace (Backtrace ())) (exn (CErrors.UserError "")) (pp (Pp_string x)) (str "No such goal.")))`)[0]),
+      {message: "No such goal.", location: {start: 5, stop: 9}, interrupted: false});
+    assert.equal(serapi.decodeCoqExn(parse('(CoqExn ((loc ()) (stm_ids ()) (backtrace (Backtrace ())) (exn Sys.Break) (pp (Pp_string "")) (str "User interrupt.")))')[0]).interrupted, true);
+  })
+
+  it("decodeGoals", function() {
+    const goals = serapi.decodeGoals(parse(`(CoqGoal ((goals (((info ((evar (Ser_Evar 4)) (name ((Id base))))) (ty (Ind x)) (hyp ((((Id n) (Id m)) () (Ind nat)) (((Id f)) ((Lambda y)) (Prod z)))))))
+      (stack ((() (((info ((evar (Ser_Evar 5)) (name ()))) (ty True) (hyp ())))))) (shelf ()) (given_up ()) (bullet ())))`)[0]);
+    assert.deepStrictEqual(goals, {
+      goals: [{id: 4, name: "base", ty: ["Ind", "x"], hyps: [
+        {names: ["n", "m"], body: undefined, ty: ["Ind", "nat"]},
+        {names: ["f"], body: ["Lambda", "y"], ty: ["Prod", "z"]}]}],
+      stack: [[[], [{id: 5, name: undefined, ty: "True", hyps: []}]]],
+      shelf: [],
+      givenUp: [],
+    });
+    assert.equal(serapi.decodeGoals(parse('(CoqString x)')[0]), undefined);
+  })
+
+  it("decodeCanceled", function() {
+    assert.deepStrictEqual(serapi.decodeCanceled(parse('(Canceled (3 4))')[0]), [3, 4]);
+  })
+});
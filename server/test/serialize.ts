@@ -0,0 +1,25 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as s from '../src/coqtop/xml-protocol/serialize';
+
+describe("Serialize", function() {
+  it("createSerializer", function() {
+    assert.ok(!(s.createSerializer("8.13.2") instanceof s.Serialize_8_15));
+    assert.ok(s.createSerializer("8.15.0") instanceof s.Serialize_8_15);
+    assert.ok(s.createSerializer("8.16+alpha") instanceof s.Serialize_8_15);
+    assert.ok(s.createSerializer("unknown") instanceof s.Serialize);
+  })
+
+  it("add", function() {
+    assert.equal(s.createSerializer("8.12.0").add("Goal a<b.", 3, 2, true),
+      '<call val="Add"><pair><pair><string>Goal a&lt;b.</string><int>3</int></pair><pair><state_id val="2"/><bool val="true"/></pair></pair></call>');
+    assert.equal(s.createSerializer("8.15.0").add("idtac.", 3, 2, false),
+      '<call val="Add"><pair><pair><pair><pair><string>idtac.</string><int>3</int></pair><pair><state_id val="2"/><bool val="false"/></pair></pair><int>0</int></pair><pair><int>0</int><int>0</int></pair></pair></call>');
+  })
+
+  it("query", function() {
+    assert.equal(s.createSerializer("8.13.0").query("Check x.", 4, 1),
+      '<call val="Query"><pair><route_id val="1"/><pair><string>Check x.</string><state_id val="4"/></pair></pair></call>');
+  })
+});
@@ -0,0 +1,35 @@
+// The module 'assert' provides assertion methods from node
+import * as assert from 'assert';
+
+import * as sexp from '../src/coqtop/serapi/sexp';
+
+describe("sexp", function() {
+  it("parse", function() {
+    assert.deepStrictEqual(sexp.parse('(Answer 0 Ack)'), [["Answer", "0", "Ack"]]);
+    assert.deepStrictEqual(sexp.parse('(a ()) b\n(c "d \\"e\\"\\n")'), [["a", []], "b", ["c", 'd "e"\n']]);
+    assert.deepStrictEqual(sexp.parse('(a ; comment\n b) (c'), [["a", "b"]]);
+  })
+
+  it("SexpReader", function() {
+    const reader = new sexp.SexpReader();
+    const results : sexp.Sexp[] = [];
+    reader.on('sexp', (x: sexp.Sexp) => results.push(x));
+    reader.write('(Answer 1 (Added 2 ');
+    assert.deepStrictEqual(results, []);
+    reader.write('() NewTip))\n(Answer 1 "a b');
+    reader.write('")');
+    assert.deepStrictEqual(results, [["Answer", "1", ["Added", "2", [], "NewTip"]], ["Answer", "1", "a b"]]);
+  })
+
+  it("print", function() {
+    assert.equal(sexp.print(["Add", [["ontop", "1"]], "Goal \"x\" (True)."]), '(Add ((ontop 1)) "Goal \\"x\\" (True).")');
+    assert.equal(sexp.print(["a", []]), '(a ())');
+  })
+
+  it("field", function() {
+    const record = sexp.parse('((level Error) (loc ()) (str "oops"))')[0];
+    assert.equal(sexp.field(record, "level"), "Error");
+    assert.deepStrictEqual(sexp.field(record, "loc"), []);
+    assert.equal(sexp.field(record, "pp"), undefined);
+  })
+});
@@ -169,4 +169,19 @@ describe("AnnotatedText", () => {
     assert.deepStrictEqual(text.subtext([{scope: "a", text:"aa"},{scope: "b", text:"bb"}],1,3), [{scope: "a", text:"a"},{scope: "b", text:"b"}]);
 })
 
+  it("annotateNativeDiffs", (() => {
+    assert.deepStrictEqual(text.annotateNativeDiffs("aa"), "aa");
+    assert.deepStrictEqual(text.annotateNativeDiffs({scope: "diff.added.bg", text: ["aa ", {scope: "diff.added", text: "bb"}]}),
+      ["aa ", {diff: "added", text: "bb"}]);
+    assert.deepStrictEqual(text.annotateNativeDiffs({scope: "diff.removed", text: {scope: "constr.variable", text: "x"}}),
+      {scope: "constr.variable", text: {diff: "removed", text: "x"}});
+    assert.deepStrictEqual(text.annotateNativeDiffs({scope: "diff.added", text: {substitution: "→", text: "->"}}),
+      {diff: "added", substitution: "→", text: "->"});
+  }));
+
+  it("hasDiff", (() => {
+    assert.equal(text.hasDiff(["aa", {scope: "foo", text: "bb"}]), false);
+    assert.equal(text.hasDiff(["aa", {scope: "foo", text: {diff: "added", text: "bb"}}]), true);
+  }));
+
 });
\ No newline at end of file